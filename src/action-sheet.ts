@@ -0,0 +1,87 @@
+import van from "vanjs-core";
+import { moveFocusWithArrowKeys } from "./internal/focus";
+import { resolvePresetSheetOptions } from "./internal/preset-sheet";
+import { openSheet } from "./open-sheet";
+import type { ActionSheetOptions } from "./types";
+
+const { button, div } = van.tags;
+
+const validateActions = ({ actions }: ActionSheetOptions) => {
+  if (actions.length === 0) {
+    throw new Error(
+      "openActionSheet: `actions` must include at least one action.",
+    );
+  }
+
+  const keys = new Set<string>();
+  for (const { key } of actions) {
+    if (keys.has(key)) {
+      throw new Error(
+        `openActionSheet: duplicate action key ${JSON.stringify(key)}.`,
+      );
+    }
+
+    keys.add(key);
+  }
+};
+
+// iOS-style action sheet; resolves with the chosen action key, or `null`
+// for Cancel and every other dismissal.
+export const openActionSheet = <K extends string>(
+  actionSheetOptions: ActionSheetOptions<K>,
+): Promise<K | null> => {
+  validateActions(actionSheetOptions);
+  const { actions, cancelLabel = "Cancel", ...options } = actionSheetOptions;
+
+  return openSheet<K>(
+    resolvePresetSheetOptions(options),
+    ({ resolve, dismiss }) => {
+      const actionButtons = actions.map((action) =>
+        button(
+          {
+            type: "button",
+            class: "vsheet-action",
+            "data-action-key": action.key,
+            ...(action.destructive ? { "data-destructive": "true" } : {}),
+            disabled: action.disabled ?? false,
+            onclick: () => resolve(action.key),
+          },
+          action.label,
+        ),
+      );
+      const cancelButton = button(
+        {
+          type: "button",
+          class: "vsheet-action vsheet-action-cancel",
+          onclick: dismiss,
+        },
+        cancelLabel,
+      );
+      const handleKeydown = (event: KeyboardEvent) => {
+        moveFocusWithArrowKeys(event, [
+          ...actionButtons.filter((actionButton) => !actionButton.disabled),
+          cancelButton,
+        ]);
+      };
+
+      return [
+        {
+          content: div(
+            {
+              class: "vsheet-action-list",
+              role: "group",
+              onkeydown: handleKeydown,
+            },
+            ...actionButtons,
+          ),
+          scroll: true,
+          className: "vsheet-action-sheet-actions",
+        },
+        {
+          content: div({ onkeydown: handleKeydown }, cancelButton),
+          className: "vsheet-action-sheet-cancel",
+        },
+      ];
+    },
+  );
+};
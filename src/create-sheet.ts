@@ -1,59 +1,134 @@
 import van from "vanjs-core";
+import {
+  markBackgroundInert,
+  releaseBackgroundInert,
+} from "./internal/background-inert";
 import {
   lockDocumentBodyScroll,
   unlockDocumentBodyScroll,
 } from "./internal/body-scroll-lock";
 import {
+  type DragVelocitySample,
+  estimateDragVelocity,
+  recordDragVelocitySample,
+} from "./internal/drag-velocity";
+import {
+  focusElement,
+  getTabbableElements,
+  resolveInitialFocusTarget,
+} from "./internal/focus";
+import {
+  getOpenSheetGroupMembers,
+  joinSheetGroup,
+  leaveSheetGroup,
+  validateSheetGroup,
+} from "./internal/groups";
+import {
+  pushSheetHistoryEntry,
+  releaseSheetHistoryEntry,
+} from "./internal/history";
+import {
+  notifySheetOpenChange,
+  registerSheet,
+  unregisterSheet,
+  validateSheetId,
+} from "./internal/registry";
+import {
+  findAdjacentSnapPointIndex,
   findClosestMatchingAncestor,
+  findNearestSnapPointIndex,
   findScrollableAncestor,
+  hasScrollRoomForDismissGesture,
+  isHorizontalPlacement,
+  normalizeDragPointerTypes,
+  normalizePlacement,
   normalizeSections,
+  normalizeSnapPoints,
   resolveCloseIcon,
   resolveContent,
+  resolveDismissOffset,
+  resolveDismissTransform,
+  resolveDragCloseThreshold,
   resolveMountTarget,
+  resolveResponsiveValue,
   resolveSectionClassName,
+  resolveSnapPointHeight,
 } from "./internal/sheet-helpers";
 import type { SheetStackSnapshot } from "./internal/stack";
 import {
-  claimSheetStackOpenOrder,
   claimSheetStackParticipantId,
-  clearSheetStackDragProgress,
-  isTopOpenSheetStackParticipant,
-  registerSheetStackParticipant,
-  setSheetStackDragProgress,
-  syncSheetStackState,
-  unregisterSheetStackParticipant,
+  resolveSheetStackCoordinator,
 } from "./internal/stack";
-import type { SheetInstance, SheetOptions, SheetReason } from "./types";
-
-const { button, div, header, section } = van.tags;
+import {
+  applySheetDefaults,
+  mergeSheetOptions,
+  resolveSheetTuning,
+  validateSheetDefaults,
+} from "./sheet-defaults";
+import type {
+  SheetBreakpoint,
+  SheetDefaults,
+  SheetInstance,
+  SheetOptions,
+  SheetPhase,
+  SheetReason,
+} from "./types";
+
+const { button, div, h2, header, p, section } = van.tags;
 const MOBILE_MEDIA_QUERY = "(max-width: 767px)";
-const DRAG_CLOSE_THRESHOLD_PX = 150;
-const DRAG_CLOSE_DELTA_WEIGHT = 0.9;
-const DRAG_CLOSE_DELTA_BOOST_CAP_PX = 60;
-const MOBILE_SHEET_HEIGHT_RATIO = 0.95;
+// Drag progress distance when the panel has no measurable layout.
+const DRAG_PROGRESS_FALLBACK_PX = 150;
 const KEYBOARD_CLOSED_EPSILON_PX = 1;
-const PANEL_TRANSITION_FALLBACK_MS = 550;
-const STACK_OFFSET_STEP_PX = 12;
-const STACK_SCALE_STEP = 0.04;
-const STACK_MIN_SCALE = 0.72;
 const DEFAULT_DRAG_START_BLOCK_SELECTOR = "[data-vsheet-drag-block]";
-const DRAG_START_AXIS_LOCK_PX = 8;
 
-export const createSheet = (options: SheetOptions): SheetInstance => {
+const isMobileViewport = () => {
+  if (typeof window.matchMedia !== "function") {
+    return true;
+  }
+
+  return window.matchMedia(MOBILE_MEDIA_QUERY).matches;
+};
+
+const getViewportBreakpoint = (): SheetBreakpoint =>
+  isMobileViewport() ? "mobile" : "desktop";
+
+export const createSheet = (sheetOptions: SheetOptions): SheetInstance => {
+  const options = applySheetDefaults(sheetOptions);
+  validateSheetId(options.id);
+  validateSheetGroup(options.group);
   const resolvedSections = normalizeSections(options);
   const dismissible = options.dismissible ?? true;
   const closeOnBackdrop = options.closeOnBackdrop ?? true;
   const closeOnEscape = options.closeOnEscape ?? true;
+  const closeOnHistoryBack = options.closeOnHistoryBack ?? false;
   const showBackdrop = options.showBackdrop ?? true;
   const showCloseButton = options.showCloseButton ?? true;
   const adjustableHeight = options.adjustableHeight ?? false;
   const floatingCloseButton = options.floatingCloseButton ?? false;
+  const inertBackground = options.inertBackground ?? false;
+  const initialFocus = options.initialFocus ?? "first-tabbable";
+  const returnFocus = options.returnFocus ?? true;
+  const destroyOnClose = options.destroyOnClose ?? false;
+  const group = options.group;
+  const placements = normalizePlacement(options.placement);
+  let placement = placements[getViewportBreakpoint()];
+  const snapPoints = normalizeSnapPoints(options);
+  const hasSnapPoints = snapPoints.length > 0;
+  const tracksContentHeight =
+    adjustableHeight || snapPoints.includes("content");
+  const activeSnapPoint = options.activeSnapPoint ?? van.state(0);
+  const dragPointerTypes = normalizeDragPointerTypes(options.dragPointerTypes);
+  const tuning = resolveSheetTuning(options);
   const resolvedDragStartBlockSelector = [
     DEFAULT_DRAG_START_BLOCK_SELECTOR,
     options.dragStartBlockSelector?.trim() ?? "",
   ]
     .filter(Boolean)
     .join(", ");
+  const stackCoordinator = resolveSheetStackCoordinator(options.stackScope);
+  const stackParticipantId = claimSheetStackParticipantId();
+  const titleId = `vsheet-${stackParticipantId}-title`;
+  const descriptionId = `vsheet-${stackParticipantId}-description`;
 
   const closeButton = button(
     {
@@ -65,7 +140,34 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     resolveCloseIcon(options.closeIcon),
   );
 
-  const headerElement = header({ class: "vsheet-header" }, closeButton);
+  const titleElement =
+    options.title === undefined
+      ? null
+      : h2(
+          { id: titleId, class: "vsheet-title" },
+          resolveContent(options.title),
+        );
+  const descriptionElement =
+    options.description === undefined
+      ? null
+      : p(
+          { id: descriptionId, class: "vsheet-description" },
+          resolveContent(options.description),
+        );
+  const headingElement =
+    titleElement || descriptionElement
+      ? div(
+          { class: "vsheet-heading" },
+          ...(titleElement ? [titleElement] : []),
+          ...(descriptionElement ? [descriptionElement] : []),
+        )
+      : null;
+
+  const headerElement = header(
+    { class: "vsheet-header" },
+    ...(headingElement ? [headingElement] : []),
+    closeButton,
+  );
 
   const sectionsElement = div(
     { class: "vsheet-sections" },
@@ -104,11 +206,29 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
       class: "vsheet-panel",
       role: "dialog",
       "aria-modal": "true",
+      tabindex: "-1",
     },
     headerElement,
     sectionsElement,
   );
 
+  // Explicit ARIA options take precedence over the generated heading ids, so
+  // an `ariaLabel` is not overridden by the title's `aria-labelledby`.
+  const labelledBy =
+    options.ariaLabelledBy ??
+    (titleElement && !options.ariaLabel ? titleId : null);
+  const describedBy =
+    options.ariaDescribedBy ?? (descriptionElement ? descriptionId : null);
+  if (labelledBy) {
+    panel.setAttribute("aria-labelledby", labelledBy);
+  }
+  if (options.ariaLabel) {
+    panel.setAttribute("aria-label", options.ariaLabel);
+  }
+  if (describedBy) {
+    panel.setAttribute("aria-describedby", describedBy);
+  }
+
   const backdrop = button({
     type: "button",
     class: "vsheet-backdrop",
@@ -132,24 +252,49 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     }
   };
   setRootDatasetFlag("floatingCloseButton", floatingCloseButton);
+  setRootDatasetFlag("snapPoints", hasSnapPoints);
+  const applyPanelWidth = () => {
+    const width = resolveResponsiveValue(
+      options.width,
+      getViewportBreakpoint(),
+    );
+    if (width) {
+      root.style.setProperty("--vsheet-panel-width", width);
+      return;
+    }
+
+    root.style.removeProperty("--vsheet-panel-width");
+  };
+  root.dataset.placement = placement;
+  applyPanelWidth();
 
   let pendingReason: SheetReason = "api";
+  let pendingSnapReason: SheetReason = "api";
   let previousOpen = options.isOpen.val;
+  let isDestroyed = false;
+  const phase = van.state<SheetPhase>(previousOpen ? "open" : "closed");
+  let phaseWaiters: Array<{
+    open: boolean;
+    resolve: (settled: boolean) => void;
+  }> = [];
+  let previousSnapPointIndex: number | null = null;
   let dragStartX = 0;
   let dragStartY = 0;
-  let dragOffsetY = 0;
-  let dragPanelHeight = 0;
-  let lastDragTouchY = 0;
-  let dragReleaseDeltaBoostY = 0;
-  let isTouchTracking = false;
+  let dragOffset = 0;
+  let dragPanelExtent = 0;
+  let dragVelocitySamples: DragVelocitySample[] = [];
+  let dragSnapPointHeights: number[] = [];
+  let dragSnapStartHeight = 0;
+  let isPointerTracking = false;
   let isDragging = false;
-  let isHorizontalGestureBlocked = false;
+  let isDragGestureBlocked = false;
   let dragStartBlockTarget: HTMLElement | null = null;
-  let activeDragTouchId: number | null = null;
+  let activeDragPointerId: number | null = null;
   let activeScrollTouchId: number | null = null;
   let lastScrollTouchX = 0;
   let lastScrollTouchY = 0;
   let stopViewportTracking: (() => void) | null = null;
+  let mobileMediaQueryList: MediaQueryList | null = null;
   let scheduledMobileHeightUpdateRaf: number | null = null;
   let resizeObserver: ResizeObserver | null = null;
   let mutationObserver: MutationObserver | null = null;
@@ -161,8 +306,13 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
   let shouldDeferCloseStateClear = false;
   let focusedElementScrollRaf: number | null = null;
   let focusedElementScrollTimeouts: number[] = [];
-  let openOrder = options.isOpen.val ? claimSheetStackOpenOrder() : 0;
-  const stackParticipantId = claimSheetStackParticipantId();
+  let returnFocusTarget: HTMLElement | null = null;
+  let backgroundInertElements: Element[] | null = null;
+  let pendingOpenGuard: {
+    open: boolean;
+    verdict: Promise<boolean>;
+  } | null = null;
+  let openOrder = options.isOpen.val ? stackCoordinator.claimOpenOrder() : 0;
   let retainStackSnapshotWhileClosed = false;
   let adjustableTrackingReady = false;
   let hasDocumentBodyScrollLock = false;
@@ -187,6 +337,10 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     timeoutId: null,
     transitionHandler: null,
   };
+  const phaseSettleSchedule: TransitionFallbackSchedule = {
+    timeoutId: null,
+    transitionHandler: null,
+  };
 
   const clearTransitionFallbackSchedule = (
     transitionSchedule: TransitionFallbackSchedule,
@@ -225,7 +379,7 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     );
     transitionSchedule.timeoutId = window.setTimeout(
       onTrigger,
-      PANEL_TRANSITION_FALLBACK_MS,
+      tuning.transitionFallbackMs,
     );
   };
 
@@ -270,7 +424,148 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     scheduleTransitionFallback(stackSnapshotRetainSchedule, maybeFinalize);
   };
 
+  const clearPhaseSettleSchedule = () => {
+    clearTransitionFallbackSchedule(phaseSettleSchedule);
+  };
+
+  const resolvePhaseWaiters = (open: boolean) => {
+    const waiters = phaseWaiters;
+    phaseWaiters = [];
+    for (const waiter of waiters) {
+      waiter.resolve(waiter.open === open);
+    }
+  };
+
+  // Settled open state, or `null` while a transition or sync is pending.
+  const getSettledOpen = (): boolean | null => {
+    const settledOpen =
+      phase.val === "open" ? true : phase.val === "closed" ? false : null;
+    return settledOpen === options.isOpen.val ? settledOpen : null;
+  };
+
+  // Resolves once the phase settles; `false` when it settles the other way.
+  const waitForSettledPhase = (open: boolean): Promise<boolean> => {
+    const settledOpen = getSettledOpen();
+    if (settledOpen !== null) {
+      return Promise.resolve(settledOpen === open);
+    }
+
+    return new Promise((resolve) => {
+      phaseWaiters.push({ open, resolve });
+      // A change reverted before the open-state sync runs never transitions.
+      queueMicrotask(() => {
+        const revertedOpen = getSettledOpen();
+        if (revertedOpen !== null) {
+          resolvePhaseWaiters(revertedOpen);
+        }
+      });
+    });
+  };
+
+  // Settles "opening"/"closing" once the panel's own transition ends.
+  const schedulePhaseSettle = (open: boolean, reason: SheetReason) => {
+    phase.val = open ? "opening" : "closing";
+    const settlePhase = () => {
+      clearPhaseSettleSchedule();
+      delete root.dataset.groupTransition;
+      phase.val = open ? "open" : "closed";
+      if (open) {
+        options.onAfterOpen?.(reason);
+      } else {
+        options.onAfterClose?.(reason);
+      }
+      resolvePhaseWaiters(open);
+      if (!open && destroyOnClose) {
+        destroy();
+      }
+    };
+
+    // Only the panel's own movement settles the phase: opacity, height and
+    // child transitions end earlier, except in group crossfades.
+    scheduleTransitionFallback(
+      phaseSettleSchedule,
+      settlePhase,
+      (event) =>
+        event.target === panel &&
+        (event.propertyName === "transform" ||
+          (event.propertyName === "opacity" &&
+            root.dataset.groupTransition !== undefined)),
+    );
+  };
+
+  // Group replacements crossfade the outgoing and incoming panels in place
+  // instead of sliding both.
+  const startGroupTransition = (direction: "in" | "out" | null) => {
+    if (direction === null) {
+      delete root.dataset.groupTransition;
+      return;
+    }
+
+    root.dataset.groupTransition = direction;
+    if (direction === "in") {
+      // Commit the transparent starting style before the open styles apply.
+      void panel.offsetWidth;
+    }
+  };
+
+  // Closes the other open members of `group` before the stack syncs, so
+  // replaced sheets never render as layers beneath this one.
+  const replaceOpenGroupMembers = (): boolean => {
+    if (group === undefined) {
+      return false;
+    }
+
+    let replaced = false;
+    for (const member of getOpenSheetGroupMembers(group, stackParticipantId)) {
+      const replacement = member.replace();
+      if (!replacement) {
+        continue;
+      }
+
+      replaced = true;
+      // Focus came from the replaced sheet, so return it where that sheet
+      // would have.
+      if (returnFocusTarget && member.element.contains(returnFocusTarget)) {
+        returnFocusTarget = replacement.returnFocusTarget;
+      }
+    }
+
+    return replaced;
+  };
+
+  const replaceForGroupMember = () => {
+    const target = returnFocusTarget;
+    if (setOpen(false, "replaced") !== true) {
+      return null;
+    }
+
+    returnFocusTarget = null;
+    return { returnFocusTarget: target };
+  };
+
+  // Only the top-most open sheet holds the background inert lock, on behalf
+  // of every open sheet in its scope that asked for `inertBackground`.
+  const syncBackgroundInert = (active: boolean) => {
+    if (active) {
+      backgroundInertElements ??= markBackgroundInert(root);
+      return;
+    }
+
+    if (!backgroundInertElements) {
+      return;
+    }
+
+    releaseBackgroundInert(backgroundInertElements);
+    backgroundInertElements = null;
+  };
+
   const applyStackSnapshot = (snapshot: SheetStackSnapshot | null) => {
+    syncBackgroundInert(
+      options.isOpen.val &&
+        snapshot?.isTop === true &&
+        snapshot.inertBackground,
+    );
+
     if (!snapshot) {
       if (!retainStackSnapshotWhileClosed || options.isOpen.val) {
         clearStackSnapshot();
@@ -285,10 +580,10 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
 
     const stackDepth = Math.max(0, snapshot.depthFromTop);
     const visualDepth = Math.max(0, snapshot.visualDepth);
-    const stackOffsetY = -visualDepth * STACK_OFFSET_STEP_PX;
+    const stackOffsetY = -visualDepth * tuning.stackOffsetStep;
     const stackScale = Math.max(
-      STACK_MIN_SCALE,
-      1 - visualDepth * STACK_SCALE_STEP,
+      tuning.stackMinScale,
+      1 - visualDepth * tuning.stackScaleStep,
     );
     root.style.setProperty("--vsheet-stack-layer", `${snapshot.layer}`);
     root.style.setProperty(
@@ -306,15 +601,13 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
   };
 
   const isTopMostOpenSheet = () =>
-    options.isOpen.val && isTopOpenSheetStackParticipant(stackParticipantId);
+    options.isOpen.val &&
+    stackCoordinator.isTopOpenParticipant(stackParticipantId);
 
-  const isMobileViewport = () => {
-    if (typeof window.matchMedia !== "function") {
-      return true;
-    }
-
-    return window.matchMedia(MOBILE_MEDIA_QUERY).matches;
-  };
+  // Viewport-fitted height, keyboard insets and snap points only apply to
+  // mobile bottom sheets.
+  const isMobileSheetLayout = () =>
+    placement === "bottom" && isMobileViewport();
 
   const clearMobileHeightState = () => {
     root.style.removeProperty("--vsheet-mobile-height");
@@ -384,7 +677,7 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
       adjustableHeight &&
         adjustableTrackingReady &&
         options.isOpen.val &&
-        isMobileViewport(),
+        isMobileSheetLayout(),
     );
   };
 
@@ -397,7 +690,7 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
   const startAdjustableTracking = () => {
     clearTransitionFallbackSchedule(adjustableTrackingStartSchedule);
 
-    if (!adjustableHeight || !options.isOpen.val || !isMobileViewport()) {
+    if (!adjustableHeight || !options.isOpen.val || !isMobileSheetLayout()) {
       return;
     }
 
@@ -417,7 +710,7 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
       !adjustableHeight ||
       adjustableTrackingReady ||
       !options.isOpen.val ||
-      !isMobileViewport()
+      !isMobileSheetLayout()
     ) {
       return;
     }
@@ -445,7 +738,7 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     if (
       !adjustableHeight ||
       options.isOpen.val ||
-      !isMobileViewport() ||
+      !isMobileSheetLayout() ||
       scheduledClosedPremeasureRaf !== null
     ) {
       return;
@@ -453,7 +746,7 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
 
     scheduledClosedPremeasureRaf = requestAnimationFrame(() => {
       scheduledClosedPremeasureRaf = null;
-      if (!adjustableHeight || options.isOpen.val || !isMobileViewport()) {
+      if (!adjustableHeight || options.isOpen.val || !isMobileSheetLayout()) {
         return;
       }
 
@@ -525,7 +818,7 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
   };
 
   const ensureContentHeightTracking = () => {
-    if (!adjustableHeight || !options.isOpen.val || !isMobileViewport()) {
+    if (!tracksContentHeight || !options.isOpen.val || !isMobileSheetLayout()) {
       stopContentHeightTracking();
       return;
     }
@@ -662,27 +955,73 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     return cachedNaturalPanelHeight;
   };
 
+  const usesSnapPoints = () => hasSnapPoints && isMobileSheetLayout();
+
+  const getActiveSnapPointIndex = () =>
+    Math.max(
+      0,
+      Math.min(snapPoints.length - 1, Math.round(activeSnapPoint.val) || 0),
+    );
+
+  const resolveSnapPointHeights = (
+    layoutViewportHeight: number,
+    maxPanelHeight: number,
+  ) =>
+    snapPoints.map((snapPoint) =>
+      Math.min(
+        maxPanelHeight,
+        resolveSnapPointHeight(
+          snapPoint,
+          layoutViewportHeight,
+          getNaturalPanelHeight,
+        ),
+      ),
+    );
+
+  const getMaxMobilePanelHeight = (
+    layoutViewportHeight: number,
+    keyboardHeight: number,
+  ) =>
+    Math.max(
+      0,
+      Math.round(layoutViewportHeight * tuning.mobileMaxHeightRatio) -
+        keyboardHeight,
+    );
+
+  const applyMobilePanelHeight = (panelHeight: number) => {
+    if (panelHeight === appliedMobilePanelHeight) {
+      return;
+    }
+
+    root.style.setProperty("--vsheet-mobile-height", `${panelHeight}px`);
+    appliedMobilePanelHeight = panelHeight;
+  };
+
   const updateMobileOpenHeight = () => {
-    if (!options.isOpen.val || !isMobileViewport()) {
+    if (!options.isOpen.val || !isMobileSheetLayout()) {
       return;
     }
 
     const currentLayoutHeight = getLayoutViewportHeight();
     const keyboardHeight = getDetectedKeyboardHeight();
     const viewportOffsetTop = keyboardHeight > 0 ? getViewportOffsetTop() : 0;
-    const basePanelHeight = Math.round(
-      currentLayoutHeight * MOBILE_SHEET_HEIGHT_RATIO,
+    const maxPanelHeight = getMaxMobilePanelHeight(
+      currentLayoutHeight,
+      keyboardHeight,
     );
-    const maxPanelHeight = Math.max(0, basePanelHeight - keyboardHeight);
-    const panelHeight =
-      adjustableHeight && adjustableTrackingReady
-        ? Math.min(maxPanelHeight, getNaturalPanelHeight())
-        : maxPanelHeight;
     const panelBottomInset = keyboardHeight + viewportOffsetTop;
 
-    if (panelHeight !== appliedMobilePanelHeight) {
-      root.style.setProperty("--vsheet-mobile-height", `${panelHeight}px`);
-      appliedMobilePanelHeight = panelHeight;
+    // Snap drags own the panel height until release.
+    if (!(hasSnapPoints && isDragging)) {
+      applyMobilePanelHeight(
+        hasSnapPoints
+          ? resolveSnapPointHeights(currentLayoutHeight, maxPanelHeight)[
+              getActiveSnapPointIndex()
+            ]
+          : adjustableHeight && adjustableTrackingReady
+            ? Math.min(maxPanelHeight, getNaturalPanelHeight())
+            : maxPanelHeight,
+      );
     }
     if (keyboardHeight !== appliedKeyboardHeight) {
       root.style.setProperty("--vsheet-keyboard-height", `${keyboardHeight}px`);
@@ -792,7 +1131,11 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
   };
 
   const handleFocusIn = () => {
-    if (!options.isOpen.val || !isMobileViewport() || !isTopMostOpenSheet()) {
+    if (
+      !options.isOpen.val ||
+      !isMobileSheetLayout() ||
+      !isTopMostOpenSheet()
+    ) {
       return;
     }
 
@@ -801,7 +1144,11 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
 
   const applyMobileClosedHeight = (open: boolean) => {
     stopMobileLifecycleTracking();
-    if (shouldDeferCloseStateClear && adjustableHeight && isMobileViewport()) {
+    if (
+      shouldDeferCloseStateClear &&
+      (adjustableHeight || hasSnapPoints) &&
+      isMobileSheetLayout()
+    ) {
       scheduleDragCloseStateClear();
       return;
     }
@@ -815,7 +1162,7 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
   };
 
   const applyMobileOpenHeight = (open: boolean) => {
-    if (!open || !isMobileViewport()) {
+    if (!open || !isMobileSheetLayout()) {
       applyMobileClosedHeight(open);
       return;
     }
@@ -834,7 +1181,7 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
 
   const syncDocumentBodyScrollLock = (open: boolean) => {
     if (open) {
-      if (!hasDocumentBodyScrollLock) {
+      if (!hasDocumentBodyScrollLock && stackCoordinator.lockBodyScroll) {
         hasDocumentBodyScrollLock = lockDocumentBodyScroll();
       }
       return;
@@ -849,7 +1196,10 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
   };
 
   const syncOpenState = (open: boolean) => {
-    setRootDatasetFlag("adjustableHeight", adjustableHeight && open);
+    setRootDatasetFlag(
+      "adjustableHeight",
+      adjustableHeight && open && placement === "bottom",
+    );
     root.dataset.state = open ? "open" : "closed";
     root.setAttribute("aria-hidden", open ? "false" : "true");
     syncDocumentBodyScrollLock(open);
@@ -865,17 +1215,185 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     clearBackdropOpenOpacity();
   };
 
-  const setOpen = (open: boolean, reason: SheetReason) => {
-    if (!open && !dismissible && reason !== "api") {
+  const commitOpenState = (open: boolean, reason: SheetReason) => {
+    if (open === options.isOpen.val) {
+      return;
+    }
+
+    pendingReason = reason;
+    options.isOpen.val = open;
+  };
+
+  const runOpenChangeGuard = (
+    open: boolean,
+    reason: SheetReason,
+  ): boolean | Promise<boolean> => {
+    const guard = open ? options.beforeOpen : options.beforeClose;
+    if (!guard) {
+      return true;
+    }
+
+    // A throwing or rejecting guard vetoes the change.
+    try {
+      const verdict = guard(reason);
+      return typeof verdict === "boolean"
+        ? verdict
+        : Promise.resolve(verdict).then(
+            (allowed) => allowed === true,
+            () => false,
+          );
+    } catch {
+      return false;
+    }
+  };
+
+  // Explicit `dismissOn` entries win over the boolean shorthands.
+  const isDismissAllowed = (reason: SheetReason, event?: Event): boolean => {
+    if (reason === "api" || reason === "replaced") {
+      return true;
+    }
+
+    const policy = options.dismissOn?.[reason];
+    if (policy !== undefined) {
+      return typeof policy === "function" ? policy(event) : policy;
+    }
+
+    if (!dismissible) {
+      return false;
+    }
+
+    if (reason === "backdrop") {
+      return closeOnBackdrop;
+    }
+
+    return reason === "escape" ? closeOnEscape : true;
+  };
+
+  // Returns whether the change was applied, or a promise for async guards.
+  const setOpen = (
+    open: boolean,
+    reason: SheetReason,
+    event?: Event,
+  ): boolean | Promise<boolean> => {
+    // A destroyed sheet never transitions again, so it ignores every change.
+    if (isDestroyed) {
+      return false;
+    }
+
+    if (!open && !isDismissAllowed(reason, event)) {
+      return false;
+    }
+
+    if (open === options.isOpen.val) {
+      return false;
+    }
+
+    if (pendingOpenGuard?.open === open) {
+      return pendingOpenGuard.verdict;
+    }
+
+    const verdict = runOpenChangeGuard(open, reason);
+    if (typeof verdict === "boolean") {
+      pendingOpenGuard = null;
+      if (verdict) {
+        commitOpenState(open, reason);
+      }
+      return verdict;
+    }
+
+    const guardRequest = {
+      open,
+      verdict: verdict.then((allowed) => {
+        if (pendingOpenGuard !== guardRequest) {
+          return false;
+        }
+
+        pendingOpenGuard = null;
+        if (allowed) {
+          commitOpenState(open, reason);
+        }
+        return allowed;
+      }),
+    };
+    pendingOpenGuard = guardRequest;
+    return guardRequest.verdict;
+  };
+
+  let historyEntryId: number | null = null;
+
+  // One history entry per open sheet; closes for other reasons pop it again.
+  const syncHistoryEntry = (open: boolean) => {
+    if (!closeOnHistoryBack) {
       return;
     }
 
+    if (open && historyEntryId === null) {
+      historyEntryId = pushSheetHistoryEntry(handleHistoryBack);
+    } else if (!open && historyEntryId !== null) {
+      releaseSheetHistoryEntry(historyEntryId);
+      historyEntryId = null;
+    }
+  };
+
+  // Back already consumed the entry, so a vetoed close pushes a fresh one to
+  // keep the next Back press on the sheet. Back always closes the top of the
+  // stack scope: under a sheet without `closeOnHistoryBack`, that sheet
+  // closes instead and this one pushes its entry again.
+  const handleHistoryBack = () => {
+    historyEntryId = null;
+    if (options.isOpen.val && !isTopMostOpenSheet()) {
+      stackCoordinator.closeTopOpenParticipant("history");
+      syncHistoryEntry(true);
+      return;
+    }
+
+    void Promise.resolve(setOpen(false, "history")).then((closed) => {
+      if (!closed && !isDestroyed) {
+        syncHistoryEntry(options.isOpen.val);
+      }
+    });
+  };
+
+  // Instance `open()`/`close()`: resolves once the transition settles, or
+  // `false` when the change is vetoed or reverted.
+  const requestOpenChange = (
+    open: boolean,
+    reason: SheetReason,
+  ): Promise<boolean> => {
+    if (isDestroyed) {
+      return Promise.resolve(false);
+    }
+
     if (open === options.isOpen.val) {
+      return waitForSettledPhase(open);
+    }
+
+    const applied = setOpen(open, reason);
+    if (typeof applied === "boolean") {
+      return applied ? waitForSettledPhase(open) : Promise.resolve(false);
+    }
+
+    return applied.then((allowed) => allowed && waitForSettledPhase(open));
+  };
+
+  const setSnapPoint = (index: number, reason: SheetReason) => {
+    if (!hasSnapPoints) {
       return;
     }
 
-    pendingReason = reason;
-    options.isOpen.val = open;
+    if (!Number.isInteger(index) || index < 0 || index >= snapPoints.length) {
+      throw new Error(
+        `createSheet: snap point index ${index} is out of range for ${snapPoints.length} snap points.`,
+      );
+    }
+
+    if (index === activeSnapPoint.val) {
+      updateMobileOpenHeight();
+      return;
+    }
+
+    pendingSnapReason = reason;
+    activeSnapPoint.val = index;
   };
 
   const setDraggingVisualState = (dragging: boolean) => {
@@ -894,33 +1412,54 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     root.style.removeProperty("--vsheet-backdrop-open-opacity");
   };
 
-  const applyDragOffset = (offsetY: number) => {
-    panel.style.transform = `translateY(${offsetY}px)`;
+  const measurePanelDismissExtent = () => {
+    const { width, height } = panel.getBoundingClientRect();
+    return isHorizontalPlacement(placement) ? width : height;
   };
 
-  const applyDragBackdropOpacity = (offsetY: number) => {
-    const panelHeight = dragPanelHeight || panel.getBoundingClientRect().height;
-    if (panelHeight <= 0) {
+  const applyDragOffset = (offset: number) => {
+    panel.style.transform = resolveDismissTransform(placement, offset, "px");
+  };
+
+  const applyDragBackdropOpacity = (offset: number) => {
+    const panelExtent = dragPanelExtent || measurePanelDismissExtent();
+    if (panelExtent <= 0) {
       setBackdropOpenOpacity(1);
       return;
     }
 
-    const dragProgress = Math.max(0, Math.min(1, offsetY / panelHeight));
+    const dragProgress = Math.max(0, Math.min(1, offset / panelExtent));
     setBackdropOpenOpacity(1 - dragProgress);
   };
 
   const getStackDragProgressDistance = () => {
-    if (dragPanelHeight > 0) {
-      return dragPanelHeight;
+    if (dragPanelExtent > 0) {
+      return dragPanelExtent;
     }
 
-    const measuredPanelHeight = panel.getBoundingClientRect().height;
-    if (measuredPanelHeight > 0) {
-      return measuredPanelHeight;
+    const measuredPanelExtent = measurePanelDismissExtent();
+    if (measuredPanelExtent > 0) {
+      return measuredPanelExtent;
     }
 
     // Keep tests/environments without real layout measurable.
-    return DRAG_CLOSE_THRESHOLD_PX;
+    return DRAG_PROGRESS_FALLBACK_PX;
+  };
+
+  const applySnapDragOffset = (offset: number) => {
+    const minSnapHeight = Math.min(...dragSnapPointHeights);
+    const maxSnapHeight = Math.max(...dragSnapPointHeights);
+    const dragHeight = dragSnapStartHeight - offset;
+    const dismissOffset = Math.max(0, minSnapHeight - dragHeight);
+    applyMobilePanelHeight(
+      Math.max(minSnapHeight, Math.min(maxSnapHeight, dragHeight)),
+    );
+    applyDragOffset(dismissOffset);
+    applyDragBackdropOpacity(dismissOffset);
+    stackCoordinator.setDragProgress(
+      stackParticipantId,
+      dismissOffset / getStackDragProgressDistance(),
+    );
   };
 
   const animatePanelTo = (transform: string) => {
@@ -934,20 +1473,29 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     );
   };
 
-  const handleBackdropClick = () => {
+  const handleBackdropClick = (event: MouseEvent) => {
     if (!isTopMostOpenSheet()) {
       return;
     }
 
-    if (!closeOnBackdrop) {
-      return;
-    }
+    setOpen(false, "backdrop", event);
+  };
 
-    setOpen(false, "backdrop");
+  const handleCloseButtonClick = (event: MouseEvent) => {
+    setOpen(false, "close-button", event);
   };
 
-  const handleCloseButtonClick = () => {
-    setOpen(false, "close-button");
+  // Each stack scope has its own top sheet; while focus is inside another
+  // scope's top sheet, that sheet owns `Escape` and `Tab`.
+  const isFocusInOtherTopSheet = () => {
+    const activeRoot =
+      document.activeElement?.closest<HTMLElement>(".vsheet-root");
+    return (
+      activeRoot !== null &&
+      activeRoot !== undefined &&
+      activeRoot !== root &&
+      activeRoot.dataset.stackTop === "true"
+    );
   };
 
   const handleEscape = (event: KeyboardEvent) => {
@@ -955,13 +1503,98 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
       return;
     }
 
-    if (!closeOnEscape || !isTopMostOpenSheet()) {
+    if (!isTopMostOpenSheet() || isFocusInOtherTopSheet()) {
+      return;
+    }
+
+    setOpen(false, "escape", event);
+  };
+
+  const captureReturnFocusTarget = () => {
+    if (returnFocus === false) {
+      returnFocusTarget = null;
+      return;
+    }
+
+    if (returnFocus instanceof HTMLElement) {
+      returnFocusTarget = returnFocus;
+      return;
+    }
+
+    const activeElement = document.activeElement;
+    returnFocusTarget =
+      activeElement instanceof HTMLElement && !root.contains(activeElement)
+        ? activeElement
+        : null;
+  };
+
+  const moveFocusIntoPanel = () => {
+    if (initialFocus === false || panel.contains(document.activeElement)) {
+      return;
+    }
+
+    focusElement(resolveInitialFocusTarget(panel, initialFocus) ?? panel);
+  };
+
+  const restoreFocus = () => {
+    const target = returnFocusTarget;
+    returnFocusTarget = null;
+    if (!target?.isConnected) {
+      return;
+    }
+
+    // Respect focus the user already moved somewhere else.
+    const activeElement = document.activeElement;
+    if (
+      activeElement &&
+      activeElement !== document.body &&
+      !root.contains(activeElement)
+    ) {
+      return;
+    }
+
+    focusElement(target);
+  };
+
+  const handleFocusTrapKeydown = (event: KeyboardEvent) => {
+    if (
+      event.key !== "Tab" ||
+      !isTopMostOpenSheet() ||
+      isFocusInOtherTopSheet()
+    ) {
+      return;
+    }
+
+    const tabbableElements = getTabbableElements(panel);
+    if (tabbableElements.length === 0) {
+      event.preventDefault();
+      focusElement(panel);
+      return;
+    }
+
+    const firstTabbable = tabbableElements[0];
+    const lastTabbable = tabbableElements[tabbableElements.length - 1];
+    const activeElement = document.activeElement;
+    const isFocusInside =
+      activeElement instanceof HTMLElement &&
+      activeElement !== panel &&
+      panel.contains(activeElement);
+
+    if (event.shiftKey) {
+      if (!isFocusInside || activeElement === firstTabbable) {
+        event.preventDefault();
+        focusElement(lastTabbable);
+      }
       return;
     }
 
-    setOpen(false, "escape");
+    if (!isFocusInside || activeElement === lastTabbable) {
+      event.preventDefault();
+      focusElement(firstTabbable);
+    }
   };
 
+  // Touch listeners only guard native scrolling; drag tracking uses pointers.
   const handleTouchStart = (event: TouchEvent) => {
     if (!options.isOpen.val || !isMobileViewport() || !isTopMostOpenSheet()) {
       return;
@@ -975,6 +1608,43 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     activeScrollTouchId = touch.identifier;
     lastScrollTouchX = touch.clientX;
     lastScrollTouchY = touch.clientY;
+  };
+
+  const captureDragPointer = (pointerId: number) => {
+    if (typeof root.setPointerCapture !== "function") {
+      return;
+    }
+
+    try {
+      root.setPointerCapture(pointerId);
+    } catch {
+      // The pointer may already be gone; the drag still ends on pointerup.
+    }
+  };
+
+  const releaseDragPointer = (pointerId: number) => {
+    if (
+      typeof root.hasPointerCapture === "function" &&
+      root.hasPointerCapture(pointerId)
+    ) {
+      root.releasePointerCapture(pointerId);
+    }
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (
+      !options.isOpen.val ||
+      !isTopMostOpenSheet() ||
+      isDragging ||
+      !event.isPrimary ||
+      !dragPointerTypes.has(event.pointerType) ||
+      (event.pointerType === "mouse" && event.button !== 0)
+    ) {
+      return;
+    }
+
+    isPointerTracking = false;
+    activeDragPointerId = null;
     const target = event.target;
     const interactiveTarget =
       target instanceof HTMLElement
@@ -1000,21 +1670,36 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
         : null;
 
     const scrollableAncestor = findScrollableAncestor(event.target, panel);
-    if (scrollableAncestor && scrollableAncestor.scrollTop > 0) {
+    if (
+      scrollableAncestor &&
+      hasScrollRoomForDismissGesture(scrollableAncestor, placement)
+    ) {
       return;
     }
 
-    isTouchTracking = true;
-    activeDragTouchId = touch.identifier;
-    dragStartX = touch.clientX;
-    dragStartY = touch.clientY;
-    lastDragTouchY = touch.clientY;
-    dragOffsetY = 0;
-    dragReleaseDeltaBoostY = 0;
-    dragPanelHeight = panel.getBoundingClientRect().height;
-    isHorizontalGestureBlocked = false;
+    isPointerTracking = true;
+    activeDragPointerId = event.pointerId;
+    dragStartX = event.clientX;
+    dragStartY = event.clientY;
+    dragOffset = 0;
+    dragVelocitySamples = [{ offset: 0, time: event.timeStamp }];
+    dragPanelExtent = measurePanelDismissExtent();
+    if (usesSnapPoints()) {
+      const layoutViewportHeight = getLayoutViewportHeight();
+      dragSnapPointHeights = resolveSnapPointHeights(
+        layoutViewportHeight,
+        getMaxMobilePanelHeight(
+          layoutViewportHeight,
+          getDetectedKeyboardHeight(),
+        ),
+      );
+      dragSnapStartHeight = dragSnapPointHeights[getActiveSnapPointIndex()];
+      // Only travel below the lowest snap point previews dismissal.
+      dragPanelExtent = Math.min(...dragSnapPointHeights);
+    }
+    isDragGestureBlocked = false;
     isDragging = false;
-    clearSheetStackDragProgress(stackParticipantId);
+    stackCoordinator.clearDragProgress(stackParticipantId);
   };
 
   const handleTouchMove = (event: TouchEvent) => {
@@ -1063,46 +1748,93 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
       }
     }
 
-    if (!isTouchTracking || activeDragTouchId === null) {
-      return;
+    if (isDragging && event.cancelable) {
+      event.preventDefault();
     }
+  };
 
-    const touch = Array.from(event.touches).find(
-      ({ identifier }) => identifier === activeDragTouchId,
+  const hasPanelTextSelection = () => {
+    const selection = document.getSelection();
+    return Boolean(
+      selection &&
+        !selection.isCollapsed &&
+        selection.anchorNode &&
+        panel.contains(selection.anchorNode),
     );
-    if (!touch) {
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    if (!isPointerTracking || event.pointerId !== activeDragPointerId) {
       return;
     }
 
-    const deltaX = touch.clientX - dragStartX;
-    const deltaY = touch.clientY - dragStartY;
-    const moveDeltaY = touch.clientY - lastDragTouchY;
-    lastDragTouchY = touch.clientY;
-    if (dragStartBlockTarget && !isHorizontalGestureBlocked) {
+    const deltaX = event.clientX - dragStartX;
+    const deltaY = event.clientY - dragStartY;
+    const dismissOffset = resolveDismissOffset(placement, deltaX, deltaY);
+    if (dragStartBlockTarget && !isDragGestureBlocked) {
       const absDeltaX = Math.abs(deltaX);
       const absDeltaY = Math.abs(deltaY);
-      if (Math.max(absDeltaX, absDeltaY) < DRAG_START_AXIS_LOCK_PX) {
+      if (Math.max(absDeltaX, absDeltaY) < tuning.dragAxisLockThreshold) {
         return;
       }
 
       if (absDeltaX > absDeltaY) {
-        isHorizontalGestureBlocked = true;
+        isDragGestureBlocked = true;
         return;
       }
 
       dragStartBlockTarget = null;
     }
 
-    if (isHorizontalGestureBlocked) {
+    // Mouse and pen presses also select text, so they only drag after
+    // deliberate movement and never while a selection in the panel grows.
+    if (!isDragging && !isDragGestureBlocked && event.pointerType !== "touch") {
+      if (
+        Math.max(Math.abs(deltaX), Math.abs(deltaY)) <
+        tuning.dragAxisLockThreshold
+      ) {
+        return;
+      }
+
+      if (hasPanelTextSelection()) {
+        isDragGestureBlocked = true;
+        return;
+      }
+    }
+
+    // Side drawers hand vertical gestures to content scrolling.
+    if (
+      !isDragging &&
+      !isDragGestureBlocked &&
+      isHorizontalPlacement(placement)
+    ) {
+      const absDeltaX = Math.abs(deltaX);
+      const absDeltaY = Math.abs(deltaY);
+      if (Math.max(absDeltaX, absDeltaY) < tuning.dragAxisLockThreshold) {
+        return;
+      }
+
+      isDragGestureBlocked = absDeltaY > absDeltaX;
+    }
+
+    if (isDragGestureBlocked) {
       return;
     }
 
-    if (deltaY <= 0) {
+    recordDragVelocitySample(
+      dragVelocitySamples,
+      dismissOffset,
+      event.timeStamp,
+    );
+    const canExpandToSnapPoint =
+      usesSnapPoints() &&
+      dragSnapStartHeight < Math.max(...dragSnapPointHeights);
+    if (dismissOffset <= 0 && !canExpandToSnapPoint) {
       if (isDragging) {
-        dragOffsetY = 0;
+        dragOffset = 0;
         applyDragOffset(0);
         applyDragBackdropOpacity(0);
-        setSheetStackDragProgress(stackParticipantId, 0);
+        stackCoordinator.setDragProgress(stackParticipantId, 0);
       }
       return;
     }
@@ -1110,153 +1842,366 @@ export const createSheet = (options: SheetOptions): SheetInstance => {
     if (!isDragging) {
       isDragging = true;
       setDraggingVisualState(true);
+      captureDragPointer(event.pointerId);
     }
 
-    dragOffsetY = deltaY;
-    if (moveDeltaY > 0) {
-      dragReleaseDeltaBoostY = Math.max(dragReleaseDeltaBoostY, moveDeltaY);
+    dragOffset = dismissOffset;
+    if (usesSnapPoints()) {
+      applySnapDragOffset(dismissOffset);
+    } else {
+      applyDragOffset(dismissOffset);
+      applyDragBackdropOpacity(dismissOffset);
+      stackCoordinator.setDragProgress(
+        stackParticipantId,
+        dismissOffset / getStackDragProgressDistance(),
+      );
     }
-    applyDragOffset(deltaY);
-    applyDragBackdropOpacity(deltaY);
-    setSheetStackDragProgress(
-      stackParticipantId,
-      deltaY / getStackDragProgressDistance(),
-    );
 
     event.preventDefault();
   };
 
+  const resetDragTracking = () => {
+    dragOffset = 0;
+    dragStartX = 0;
+    dragStartY = 0;
+    dragPanelExtent = 0;
+    dragVelocitySamples = [];
+    dragSnapPointHeights = [];
+    dragSnapStartHeight = 0;
+    isDragGestureBlocked = false;
+    dragStartBlockTarget = null;
+  };
+
   const handleTouchEnd = () => {
     activeScrollTouchId = null;
     lastScrollTouchX = 0;
     lastScrollTouchY = 0;
+  };
 
-    if (!isTouchTracking) {
+  const handlePointerEnd = (event: PointerEvent) => {
+    if (!isPointerTracking || event.pointerId !== activeDragPointerId) {
       return;
     }
 
-    isTouchTracking = false;
-    activeDragTouchId = null;
+    isPointerTracking = false;
+    activeDragPointerId = null;
+    releaseDragPointer(event.pointerId);
 
     if (!isDragging) {
-      dragOffsetY = 0;
-      dragStartX = 0;
-      dragStartY = 0;
-      dragPanelHeight = 0;
-      lastDragTouchY = 0;
-      dragReleaseDeltaBoostY = 0;
-      isHorizontalGestureBlocked = false;
-      dragStartBlockTarget = null;
-      clearSheetStackDragProgress(stackParticipantId);
+      resetDragTracking();
+      stackCoordinator.clearDragProgress(stackParticipantId);
       return;
     }
 
     isDragging = false;
     setDraggingVisualState(false);
-    clearSheetStackDragProgress(stackParticipantId);
-
-    const dragCloseDistance =
-      dragOffsetY +
-      Math.min(
-        DRAG_CLOSE_DELTA_BOOST_CAP_PX,
-        dragReleaseDeltaBoostY * DRAG_CLOSE_DELTA_WEIGHT,
-      );
+    stackCoordinator.clearDragProgress(stackParticipantId);
 
-    if (dragCloseDistance >= DRAG_CLOSE_THRESHOLD_PX) {
-      animatePanelTo("translateY(100%)");
-      setOpen(false, "drag");
+    const releaseVelocity = estimateDragVelocity(
+      dragVelocitySamples,
+      event.timeStamp,
+    );
+    const isFling = Math.abs(releaseVelocity) >= tuning.flingVelocityThreshold;
+    const releaseHeight = dragSnapStartHeight - dragOffset;
+    const dragCloseDistance = usesSnapPoints()
+      ? Math.min(...dragSnapPointHeights) - releaseHeight
+      : dragOffset;
+    // A fling moves one snap point in its direction, or dismisses past the lowest.
+    const flingSnapPointIndex =
+      isFling && usesSnapPoints()
+        ? findAdjacentSnapPointIndex(
+            dragSnapPointHeights,
+            releaseHeight,
+            releaseVelocity > 0 ? -1 : 1,
+          )
+        : -1;
+    const isDismissFling =
+      isFling &&
+      releaseVelocity > 0 &&
+      dragOffset > 0 &&
+      flingSnapPointIndex === -1;
+    const shouldClose =
+      isDismissFling ||
+      (dragCloseDistance > 0 &&
+        dragCloseDistance >=
+          resolveDragCloseThreshold(
+            tuning.dragCloseThreshold,
+            getStackDragProgressDistance(),
+          ));
+
+    // Vetoed or pending guards settle the panel back to its resting position.
+    if (shouldClose && setOpen(false, "drag", event) === true) {
+      animatePanelTo(resolveDismissTransform(placement, 100, "%"));
     } else {
       setBackdropOpenOpacity(1);
-      animatePanelTo("translateY(0px)");
+      animatePanelTo(resolveDismissTransform(placement, 0, "px"));
+      if (usesSnapPoints()) {
+        setSnapPoint(
+          flingSnapPointIndex === -1
+            ? findNearestSnapPointIndex(dragSnapPointHeights, releaseHeight)
+            : flingSnapPointIndex,
+          "drag",
+        );
+      }
     }
 
-    dragOffsetY = 0;
-    dragStartX = 0;
-    dragStartY = 0;
-    dragPanelHeight = 0;
-    lastDragTouchY = 0;
-    dragReleaseDeltaBoostY = 0;
-    isHorizontalGestureBlocked = false;
-    dragStartBlockTarget = null;
+    resetDragTracking();
+  };
+
+  const cancelActiveDrag = () => {
+    activeScrollTouchId = null;
+    if (activeDragPointerId !== null) {
+      releaseDragPointer(activeDragPointerId);
+    }
+    isPointerTracking = false;
+    activeDragPointerId = null;
+    if (isDragging) {
+      isDragging = false;
+      setDraggingVisualState(false);
+      panel.style.transform = "";
+    }
+    resetDragTracking();
+    stackCoordinator.clearDragProgress(stackParticipantId);
+  };
+
+  // Browsers cancel pointers when they take over a gesture, e.g. to pan, so
+  // a cancelled drag always settles back instead of releasing.
+  const handlePointerCancel = (event: PointerEvent) => {
+    if (!isPointerTracking || event.pointerId !== activeDragPointerId) {
+      return;
+    }
+
+    const wasDragging = isDragging;
+    cancelActiveDrag();
+    if (wasDragging) {
+      setBackdropOpenOpacity(1);
+      animatePanelTo(resolveDismissTransform(placement, 0, "px"));
+      updateMobileOpenHeight();
+    }
+  };
+
+  const handleViewportBreakpointChange = () => {
+    const nextPlacement = placements[getViewportBreakpoint()];
+    applyPanelWidth();
+    if (nextPlacement !== placement) {
+      cancelActiveDrag();
+      placement = nextPlacement;
+      root.dataset.placement = placement;
+    }
+
+    syncOpenState(options.isOpen.val);
+    if (options.isOpen.val && adjustableHeight) {
+      startAdjustableTracking();
+    }
+    stackCoordinator.sync();
   };
 
   backdrop.addEventListener("click", handleBackdropClick);
   closeButton.addEventListener("click", handleCloseButtonClick);
   document.addEventListener("keydown", handleEscape);
+  document.addEventListener("keydown", handleFocusTrapKeydown);
   root.addEventListener("touchstart", handleTouchStart, { passive: true });
   root.addEventListener("touchmove", handleTouchMove, { passive: false });
   root.addEventListener("touchend", handleTouchEnd, { passive: true });
   root.addEventListener("touchcancel", handleTouchEnd, { passive: true });
+  root.addEventListener("pointerdown", handlePointerDown);
+  root.addEventListener("pointermove", handlePointerMove);
+  root.addEventListener("pointerup", handlePointerEnd);
+  root.addEventListener("pointercancel", handlePointerCancel);
   panel.addEventListener("focusin", handleFocusIn);
+  if (typeof window.matchMedia === "function") {
+    mobileMediaQueryList = window.matchMedia(MOBILE_MEDIA_QUERY);
+    mobileMediaQueryList.addEventListener(
+      "change",
+      handleViewportBreakpointChange,
+    );
+  }
 
-  registerSheetStackParticipant({
+  stackCoordinator.register({
     id: stackParticipantId,
     isOpen: () => options.isOpen.val,
     getOpenOrder: () => openOrder,
+    // Only read after `createSheet` returns; stack listeners defer their reads.
+    getInstance: () => instance,
+    inertBackground,
+    requestClose: (reason) => {
+      void setOpen(false, reason);
+    },
     applyStackSnapshot,
   });
 
+  if (group !== undefined) {
+    joinSheetGroup(group, {
+      id: stackParticipantId,
+      element: root,
+      isOpen: () => options.isOpen.val,
+      replace: replaceForGroupMember,
+    });
+  }
+
+  if (previousOpen) {
+    captureReturnFocusTarget();
+    replaceOpenGroupMembers();
+  }
   syncOpenState(previousOpen);
-  if (previousOpen && adjustableHeight && isMobileViewport()) {
+  if (previousOpen && adjustableHeight && isMobileSheetLayout()) {
     scheduleAdjustableTrackingStart();
   }
-  syncSheetStackState();
+  stackCoordinator.sync();
+  if (previousOpen) {
+    moveFocusIntoPanel();
+    syncHistoryEntry(true);
+  }
 
   const stateSync = van.derive(() => {
+    if (isDestroyed) {
+      return;
+    }
+
     const currentOpen = options.isOpen.val;
     const justOpened = currentOpen && !previousOpen;
     const justClosed = !currentOpen && previousOpen;
     if (justOpened) {
-      openOrder = claimSheetStackOpenOrder();
+      captureReturnFocusTarget();
+      openOrder = stackCoordinator.claimOpenOrder();
       shouldDeferCloseStateClear = false;
       resetStackSnapshotRetainState();
       adjustableTrackingReady = false;
+      startGroupTransition(replaceOpenGroupMembers() ? "in" : null);
     } else if (justClosed) {
-      shouldDeferCloseStateClear = adjustableHeight && isMobileViewport();
+      shouldDeferCloseStateClear =
+        (adjustableHeight || hasSnapPoints) && isMobileSheetLayout();
       retainStackSnapshotWhileClosed = true;
       scheduleStackSnapshotRetainClear();
       resetAdjustableTracking();
+      startGroupTransition(pendingReason === "replaced" ? "out" : null);
     }
     syncOpenState(currentOpen);
-    if (justOpened && adjustableHeight && isMobileViewport()) {
+    if (justOpened && adjustableHeight && isMobileSheetLayout()) {
       scheduleAdjustableTrackingStart();
     }
-    syncSheetStackState();
+    stackCoordinator.sync();
+    if (justOpened) {
+      moveFocusIntoPanel();
+    } else if (justClosed) {
+      restoreFocus();
+    }
 
     if (currentOpen === previousOpen) {
       return;
     }
 
+    syncHistoryEntry(currentOpen);
+    schedulePhaseSettle(currentOpen, pendingReason);
     options.onOpenChange?.(currentOpen, pendingReason);
     previousOpen = currentOpen;
     pendingReason = "api";
+    if (options.id !== undefined) {
+      notifySheetOpenChange(options.id);
+    }
   });
   void stateSync;
 
-  return {
+  const snapPointSync = van.derive(() => {
+    if (isDestroyed) {
+      return;
+    }
+
+    const currentSnapPointIndex = activeSnapPoint.val;
+    if (!hasSnapPoints) {
+      return;
+    }
+
+    root.dataset.snapPoint = `${getActiveSnapPointIndex()}`;
+    updateMobileOpenHeight();
+
+    if (
+      previousSnapPointIndex === null ||
+      currentSnapPointIndex === previousSnapPointIndex
+    ) {
+      previousSnapPointIndex = currentSnapPointIndex;
+      return;
+    }
+
+    options.onSnapPointChange?.(getActiveSnapPointIndex(), pendingSnapReason);
+    previousSnapPointIndex = currentSnapPointIndex;
+    pendingSnapReason = "api";
+  });
+  void snapPointSync;
+
+  const destroy = () => {
+    if (isDestroyed) {
+      return;
+    }
+
+    isDestroyed = true;
+    pendingOpenGuard = null;
+    clearPhaseSettleSchedule();
+    resolvePhaseWaiters(options.isOpen.val);
+    syncHistoryEntry(false);
+    resetStackSnapshotRetainState();
+    stopMobileLifecycleTracking();
+    clearDragCloseStateClearSchedule();
+    clearMobileHeightState();
+    clearFocusedElementScrollSchedule();
+    syncDocumentBodyScrollLock(false);
+    backdrop.removeEventListener("click", handleBackdropClick);
+    closeButton.removeEventListener("click", handleCloseButtonClick);
+    document.removeEventListener("keydown", handleEscape);
+    document.removeEventListener("keydown", handleFocusTrapKeydown);
+    root.removeEventListener("touchstart", handleTouchStart);
+    root.removeEventListener("touchmove", handleTouchMove);
+    root.removeEventListener("touchend", handleTouchEnd);
+    root.removeEventListener("touchcancel", handleTouchEnd);
+    root.removeEventListener("pointerdown", handlePointerDown);
+    root.removeEventListener("pointermove", handlePointerMove);
+    root.removeEventListener("pointerup", handlePointerEnd);
+    root.removeEventListener("pointercancel", handlePointerCancel);
+    panel.removeEventListener("focusin", handleFocusIn);
+    mobileMediaQueryList?.removeEventListener(
+      "change",
+      handleViewportBreakpointChange,
+    );
+    mobileMediaQueryList = null;
+    syncBackgroundInert(false);
+    stackCoordinator.unregister(stackParticipantId);
+    if (group !== undefined) {
+      leaveSheetGroup(group, stackParticipantId);
+    }
+    stackCoordinator.clearDragProgress(stackParticipantId);
+    clearStackSnapshot();
+    stackCoordinator.sync();
+    if (options.id !== undefined) {
+      unregisterSheet(options.id);
+    }
+    root.remove();
+    restoreFocus();
+  };
+
+  const instance: SheetInstance = {
     element: root,
-    open: () => setOpen(true, "api"),
-    close: (reason = "api") => setOpen(false, reason),
-    destroy: () => {
-      resetStackSnapshotRetainState();
-      stopMobileLifecycleTracking();
-      clearDragCloseStateClearSchedule();
-      clearMobileHeightState();
-      clearFocusedElementScrollSchedule();
-      syncDocumentBodyScrollLock(false);
-      backdrop.removeEventListener("click", handleBackdropClick);
-      closeButton.removeEventListener("click", handleCloseButtonClick);
-      document.removeEventListener("keydown", handleEscape);
-      root.removeEventListener("touchstart", handleTouchStart);
-      root.removeEventListener("touchmove", handleTouchMove);
-      root.removeEventListener("touchend", handleTouchEnd);
-      root.removeEventListener("touchcancel", handleTouchEnd);
-      panel.removeEventListener("focusin", handleFocusIn);
-      unregisterSheetStackParticipant(stackParticipantId);
-      clearSheetStackDragProgress(stackParticipantId);
-      clearStackSnapshot();
-      syncSheetStackState();
-      root.remove();
-    },
+    open: () => requestOpenChange(true, "api"),
+    close: (reason = "api") => requestOpenChange(false, reason),
+    phase,
+    activeSnapPoint,
+    snapTo: (index, reason = "api") => setSnapPoint(index, reason),
+    destroy,
   };
+  if (options.id !== undefined) {
+    registerSheet(options.id, {
+      instance,
+      isOpen: () => options.isOpen.val,
+      getOpenOrder: () => openOrder,
+    });
+  }
+
+  return instance;
+};
+
+// Pre-configured `createSheet`: call options > factory defaults > global defaults.
+export const createSheetFactory = (defaults: SheetDefaults) => {
+  validateSheetDefaults(defaults, "createSheetFactory");
+  const factoryDefaults = { ...defaults };
+  return (options: SheetOptions): SheetInstance =>
+    createSheet(mergeSheetOptions(factoryDefaults, options));
 };
@@ -421,6 +421,7 @@ const openDemoSheet = (
   };
   const sheet = createSheet({
     isOpen,
+    placement: mode === "desktop" ? "right" : "bottom",
     sections: resolveDemoSections(mode, layout, {
       closeSheet,
       openAnotherSheet,
@@ -436,8 +437,6 @@ const openDemoSheet = (
     },
   });
 
-  sheet.element.dataset.demoMode = mode;
-
   const openDelay =
     layout === "adjustable-height" ? ADJUSTABLE_OPEN_DELAY_MS : 0;
   window.setTimeout(() => {
@@ -546,6 +545,7 @@ const openStackBuilderDemo = (
 
   const sheet = createSheet({
     isOpen,
+    placement: mode === "desktop" ? "right" : "bottom",
     sections: stackBuilderSections(level, openAnotherSheet, closeSheet),
     onOpenChange: (open) => {
       if (!open) {
@@ -554,8 +554,6 @@ const openStackBuilderDemo = (
     },
   });
 
-  sheet.element.dataset.demoMode = mode;
-
   window.setTimeout(() => {
     if (sheet.element.isConnected) {
       isOpen.val = true;
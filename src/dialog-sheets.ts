@@ -0,0 +1,141 @@
+import van from "vanjs-core";
+import { focusElement } from "./internal/focus";
+import { resolvePresetSheetOptions } from "./internal/preset-sheet";
+import { openSheet } from "./open-sheet";
+import type {
+  AlertSheetOptions,
+  ConfirmSheetOptions,
+  PromptSheetOptions,
+} from "./types";
+
+const { button, div, input, label } = van.tags;
+
+const dialogButton = (
+  text: string,
+  className: string,
+  onclick: () => void,
+  destructive = false,
+) =>
+  button(
+    {
+      type: "button",
+      class: `vsheet-action ${className}`,
+      ...(destructive ? { "data-destructive": "true" } : {}),
+      onclick,
+    },
+    text,
+  );
+
+const dialogActions = (...buttons: HTMLButtonElement[]) =>
+  div({ class: "vsheet-dialog-actions" }, ...buttons);
+
+// Resolves once the sheet closes, however it was dismissed.
+export const alertSheet = ({
+  okLabel = "OK",
+  ...options
+}: AlertSheetOptions): Promise<void> =>
+  openSheet<true>(resolvePresetSheetOptions(options), ({ resolve }) => [
+    {
+      content: dialogActions(
+        dialogButton(okLabel, "vsheet-dialog-confirm", () => resolve(true)),
+      ),
+      scroll: true,
+    },
+  ]).then(() => undefined);
+
+// Resolves `true` only for the confirm button; every other close is `false`.
+export const confirmSheet = ({
+  confirmLabel = "OK",
+  cancelLabel = "Cancel",
+  destructive = false,
+  ...options
+}: ConfirmSheetOptions): Promise<boolean> =>
+  openSheet<true>(
+    resolvePresetSheetOptions(options),
+    ({ resolve, dismiss }) => [
+      {
+        content: dialogActions(
+          dialogButton(cancelLabel, "vsheet-dialog-cancel", dismiss),
+          dialogButton(
+            confirmLabel,
+            "vsheet-dialog-confirm",
+            () => resolve(true),
+            destructive,
+          ),
+        ),
+        scroll: true,
+      },
+    ],
+  ).then((confirmed) => confirmed === true);
+
+// Resolves with the input value on confirm or Enter, otherwise `null`. The
+// input is focused after the enter transition so mobile keyboards open once
+// the sheet has settled.
+export const promptSheet = ({
+  label: labelText,
+  defaultValue = "",
+  placeholder,
+  inputType = "text",
+  confirmLabel = "OK",
+  cancelLabel = "Cancel",
+  destructive = false,
+  ...options
+}: PromptSheetOptions): Promise<string | null> => {
+  let inputElement: HTMLInputElement | null = null;
+
+  return openSheet<string>(
+    {
+      initialFocus: false,
+      ...resolvePresetSheetOptions(options),
+      onAfterOpen: (reason) => {
+        if (inputElement) {
+          focusElement(inputElement);
+          inputElement.select();
+        }
+
+        options.onAfterOpen?.(reason);
+      },
+    },
+    ({ resolve, dismiss }) => {
+      const promptInput = input({
+        type: inputType,
+        class: "vsheet-prompt-input",
+        value: defaultValue,
+        ...(placeholder === undefined ? {} : { placeholder }),
+        ...(labelText === undefined && typeof options.title === "string"
+          ? { "aria-label": options.title }
+          : {}),
+        onkeydown: (event: KeyboardEvent) => {
+          if (event.key === "Enter" && !event.isComposing) {
+            event.preventDefault();
+            resolve(promptInput.value);
+          }
+        },
+      });
+      inputElement = promptInput;
+
+      return [
+        {
+          content:
+            labelText === undefined
+              ? promptInput
+              : label({ class: "vsheet-prompt-label" }, labelText, promptInput),
+          scroll: true,
+          className: "vsheet-prompt-field",
+        },
+        {
+          content: dialogActions(
+            dialogButton(cancelLabel, "vsheet-dialog-cancel", dismiss),
+            dialogButton(
+              confirmLabel,
+              "vsheet-dialog-confirm",
+              () => resolve(promptInput.value),
+              destructive,
+            ),
+          ),
+          className: "vsheet-dialog-footer",
+        },
+      ];
+    },
+  );
+};
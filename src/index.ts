@@ -1,11 +1,53 @@
 import "./style.css";
 
-export { createSheet } from "./create-sheet";
+export { openActionSheet } from "./action-sheet";
+export { createSheet, createSheetFactory } from "./create-sheet";
+export { alertSheet, confirmSheet, promptSheet } from "./dialog-sheets";
+export { getSheetById } from "./internal/registry";
+export { openSheet } from "./open-sheet";
+export { openPickerSheet } from "./picker-sheet";
+export {
+  configureSheetDefaults,
+  getSheetDefaults,
+  setSheetDefaults,
+} from "./sheet-defaults";
+export { createSheetStack, sheetStack } from "./sheet-stack";
 export type {
+  ActionSheetOptions,
+  AlertSheetOptions,
+  ConfirmSheetOptions,
+  MessageSheetOptions,
+  MultiPickerSheetOptions,
+  OpenSheetContext,
+  OpenSheetOptions,
+  PickerSheetBaseOptions,
+  PickerSheetOptions,
+  PromptSheetInputType,
+  PromptSheetOptions,
+  SheetAction,
+  SheetBreakpoint,
+  SheetDefaults,
+  SheetDismissPolicy,
+  SheetDismissReason,
+  SheetDragThreshold,
+  SheetInitialFocus,
   SheetInstance,
   SheetOptions,
+  SheetPhase,
+  SheetPlacement,
+  SheetPointerType,
   SheetReason,
   SheetRenderable,
+  SheetResponsiveValue,
   SheetSection,
+  SheetSnapPoint,
+  SheetStack,
+  SheetStackOptions,
+  SheetTuningOptions,
+  SheetUrlHistoryMode,
+  SheetUrlSyncMode,
+  SheetUrlSyncOptions,
+  SinglePickerSheetOptions,
   VanState,
 } from "./types";
+export { syncSheetsWithUrl } from "./url-sync";
@@ -0,0 +1,94 @@
+// Reference-counted `inert` / `aria-hidden` marking for content outside the
+// top-most modal sheet. Original attribute values are restored on release.
+type InertElementSnapshot = {
+  count: number;
+  inert: string | null;
+  ariaHidden: string | null;
+  ownsAriaHidden: boolean;
+};
+
+const IGNORED_BACKGROUND_TAGS = new Set([
+  "SCRIPT",
+  "STYLE",
+  "LINK",
+  "TEMPLATE",
+  "NOSCRIPT",
+]);
+
+const inertElementSnapshots = new Map<Element, InertElementSnapshot>();
+
+const restoreAttribute = (
+  element: Element,
+  name: string,
+  value: string | null,
+) => {
+  if (value === null) {
+    element.removeAttribute(name);
+    return;
+  }
+
+  element.setAttribute(name, value);
+};
+
+// Siblings of the sheet root and of each ancestor up to `document.body`.
+const collectBackgroundElements = (root: HTMLElement): Element[] => {
+  const elements: Element[] = [];
+  let node: HTMLElement = root;
+  while (node !== document.body && node.parentElement) {
+    for (const sibling of Array.from(node.parentElement.children)) {
+      if (sibling !== node && !IGNORED_BACKGROUND_TAGS.has(sibling.tagName)) {
+        elements.push(sibling);
+      }
+    }
+
+    node = node.parentElement;
+  }
+
+  return elements;
+};
+
+export const markBackgroundInert = (root: HTMLElement): Element[] => {
+  const elements = collectBackgroundElements(root);
+  for (const element of elements) {
+    const snapshot = inertElementSnapshots.get(element);
+    if (snapshot) {
+      snapshot.count += 1;
+      continue;
+    }
+
+    // Other sheet roots own their `aria-hidden` state; `inert` is enough.
+    const ownsAriaHidden = !element.classList.contains("vsheet-root");
+    inertElementSnapshots.set(element, {
+      count: 1,
+      inert: element.getAttribute("inert"),
+      ariaHidden: element.getAttribute("aria-hidden"),
+      ownsAriaHidden,
+    });
+    element.setAttribute("inert", "");
+    if (ownsAriaHidden) {
+      element.setAttribute("aria-hidden", "true");
+    }
+  }
+
+  return elements;
+};
+
+export const releaseBackgroundInert = (elements: Element[]) => {
+  for (const element of elements) {
+    const snapshot = inertElementSnapshots.get(element);
+    if (!snapshot) {
+      continue;
+    }
+
+    snapshot.count -= 1;
+    if (snapshot.count > 0) {
+      continue;
+    }
+
+    inertElementSnapshots.delete(element);
+    restoreAttribute(element, "inert", snapshot.inert);
+    if (snapshot.ownsAriaHidden) {
+      restoreAttribute(element, "aria-hidden", snapshot.ariaHidden);
+    }
+  }
+};
@@ -1,3 +1,5 @@
+import { getSharedSheetState } from "./shared-state";
+
 type BodyInlineStyleSnapshot = {
   overflow: string;
   position: string;
@@ -11,11 +13,25 @@ type DocumentInlineStyleSnapshot = {
   overflow: string;
 };
 
-let activeDocumentBodyScrollLocks = 0;
-let lockedScrollX = 0;
-let lockedScrollY = 0;
-let bodyInlineStyleSnapshot: BodyInlineStyleSnapshot | null = null;
-let documentInlineStyleSnapshot: DocumentInlineStyleSnapshot | null = null;
+type DocumentBodyScrollLockState = {
+  activeLocks: number;
+  lockedScrollX: number;
+  lockedScrollY: number;
+  bodyInlineStyleSnapshot: BodyInlineStyleSnapshot | null;
+  documentInlineStyleSnapshot: DocumentInlineStyleSnapshot | null;
+};
+
+// Shared across library copies so nested locks restore the original styles.
+const lockState = getSharedSheetState<DocumentBodyScrollLockState>(
+  "documentBodyScrollLock",
+  () => ({
+    activeLocks: 0,
+    lockedScrollX: 0,
+    lockedScrollY: 0,
+    bodyInlineStyleSnapshot: null,
+    documentInlineStyleSnapshot: null,
+  }),
+);
 
 const supportsDocumentBodyScrollLock = () =>
   typeof window !== "undefined" &&
@@ -34,17 +50,17 @@ export const lockDocumentBodyScroll = (): boolean => {
     return false;
   }
 
-  if (activeDocumentBodyScrollLocks === 0) {
-    lockedScrollX = Math.max(
+  if (lockState.activeLocks === 0) {
+    lockState.lockedScrollX = Math.max(
       0,
       Math.round(window.scrollX || window.pageXOffset),
     );
-    lockedScrollY = Math.max(
+    lockState.lockedScrollY = Math.max(
       0,
       Math.round(window.scrollY || window.pageYOffset),
     );
 
-    bodyInlineStyleSnapshot = {
+    lockState.bodyInlineStyleSnapshot = {
       overflow: body.style.overflow,
       position: body.style.position,
       top: body.style.top,
@@ -52,36 +68,39 @@ export const lockDocumentBodyScroll = (): boolean => {
       right: body.style.right,
       width: body.style.width,
     };
-    documentInlineStyleSnapshot = {
+    lockState.documentInlineStyleSnapshot = {
       overflow: documentElement.style.overflow,
     };
 
     documentElement.style.overflow = "hidden";
     body.style.overflow = "hidden";
     body.style.position = "fixed";
-    body.style.top = `-${lockedScrollY}px`;
+    body.style.top = `-${lockState.lockedScrollY}px`;
     body.style.left = "0";
     body.style.right = "0";
     body.style.width = "100%";
   }
 
-  activeDocumentBodyScrollLocks += 1;
+  lockState.activeLocks += 1;
   return true;
 };
 
 export const unlockDocumentBodyScroll = () => {
-  if (
-    !supportsDocumentBodyScrollLock() ||
-    activeDocumentBodyScrollLocks === 0
-  ) {
+  if (!supportsDocumentBodyScrollLock() || lockState.activeLocks === 0) {
     return;
   }
 
-  activeDocumentBodyScrollLocks -= 1;
-  if (activeDocumentBodyScrollLocks > 0) {
+  lockState.activeLocks -= 1;
+  if (lockState.activeLocks > 0) {
     return;
   }
 
+  const {
+    bodyInlineStyleSnapshot,
+    documentInlineStyleSnapshot,
+    lockedScrollX,
+    lockedScrollY,
+  } = lockState;
   const body = document.body;
   const documentElement = document.documentElement;
   if (body && bodyInlineStyleSnapshot) {
@@ -108,8 +127,8 @@ export const unlockDocumentBodyScroll = () => {
     }
   }
 
-  lockedScrollX = 0;
-  lockedScrollY = 0;
-  bodyInlineStyleSnapshot = null;
-  documentInlineStyleSnapshot = null;
+  lockState.lockedScrollX = 0;
+  lockState.lockedScrollY = 0;
+  lockState.bodyInlineStyleSnapshot = null;
+  lockState.documentInlineStyleSnapshot = null;
 };
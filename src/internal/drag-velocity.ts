@@ -0,0 +1,44 @@
+// Release velocity estimate from timestamped drag samples.
+export type DragVelocitySample = {
+  offset: number;
+  time: number;
+};
+
+const DRAG_VELOCITY_WINDOW_MS = 100;
+
+export const recordDragVelocitySample = (
+  samples: DragVelocitySample[],
+  offset: number,
+  time: number,
+) => {
+  samples.push({ offset, time });
+  while (
+    samples.length > 2 &&
+    time - samples[0].time > DRAG_VELOCITY_WINDOW_MS
+  ) {
+    samples.shift();
+  }
+};
+
+// Pixels per millisecond toward the dismiss edge; 0 when the pointer rested
+// before release or the samples span no measurable time.
+export const estimateDragVelocity = (
+  samples: DragVelocitySample[],
+  releaseTime: number,
+): number => {
+  const recentSamples = samples.filter(
+    ({ time }) => releaseTime - time <= DRAG_VELOCITY_WINDOW_MS,
+  );
+  if (recentSamples.length < 2) {
+    return 0;
+  }
+
+  const firstSample = recentSamples[0];
+  const lastSample = recentSamples[recentSamples.length - 1];
+  const elapsed = lastSample.time - firstSample.time;
+  if (elapsed <= 0) {
+    return 0;
+  }
+
+  return (lastSample.offset - firstSample.offset) / elapsed;
+};
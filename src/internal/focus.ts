@@ -0,0 +1,87 @@
+import type { SheetInitialFocus } from "../types";
+
+// Focus helpers for the dialog panel: tabbable discovery, initial focus
+// resolution, and scroll-safe focusing.
+const TABBABLE_SELECTOR = [
+  "a[href]",
+  "area[href]",
+  "button:not([disabled])",
+  "input:not([disabled]):not([type='hidden'])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "iframe",
+  "audio[controls]",
+  "video[controls]",
+  "summary",
+  "[contenteditable]:not([contenteditable='false'])",
+  "[tabindex]",
+].join(", ");
+
+export const getTabbableElements = (container: HTMLElement): HTMLElement[] =>
+  Array.from(container.querySelectorAll<HTMLElement>(TABBABLE_SELECTOR)).filter(
+    (element) =>
+      element.tabIndex >= 0 &&
+      !element.closest("[hidden], [inert], [aria-hidden='true']"),
+  );
+
+export const resolveInitialFocusTarget = (
+  container: HTMLElement,
+  initialFocus: SheetInitialFocus,
+): HTMLElement | null => {
+  if (initialFocus === false) {
+    return null;
+  }
+
+  if (initialFocus instanceof HTMLElement) {
+    return container.contains(initialFocus) ? initialFocus : null;
+  }
+
+  if (initialFocus === "first-tabbable") {
+    return getTabbableElements(container)[0] ?? null;
+  }
+
+  return container.querySelector<HTMLElement>(initialFocus);
+};
+
+export const focusElement = (element: HTMLElement) => {
+  try {
+    element.focus({ preventScroll: true });
+  } catch {
+    element.focus();
+  }
+};
+
+// Arrow/Home/End focus movement across `items`, wrapping at both ends.
+// Returns whether the key was handled.
+export const moveFocusWithArrowKeys = (
+  event: KeyboardEvent,
+  items: HTMLElement[],
+): boolean => {
+  if (items.length === 0) {
+    return false;
+  }
+
+  const currentIndex = items.indexOf(document.activeElement as HTMLElement);
+  const lastIndex = items.length - 1;
+  let nextIndex: number;
+  switch (event.key) {
+    case "ArrowDown":
+      nextIndex = currentIndex >= lastIndex ? 0 : currentIndex + 1;
+      break;
+    case "ArrowUp":
+      nextIndex = currentIndex <= 0 ? lastIndex : currentIndex - 1;
+      break;
+    case "Home":
+      nextIndex = 0;
+      break;
+    case "End":
+      nextIndex = lastIndex;
+      break;
+    default:
+      return false;
+  }
+
+  event.preventDefault();
+  focusElement(items[nextIndex]);
+  return true;
+};
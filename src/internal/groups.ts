@@ -0,0 +1,44 @@
+// Exclusive sheet groups: opening a member replaces the other open members.
+type SheetGroupMember = {
+  id: number;
+  element: HTMLElement;
+  isOpen: () => boolean;
+  // Closes the member with reason "replaced". Returns `null` when it stays
+  // open (for now), otherwise where it would have returned focus.
+  replace: () => { returnFocusTarget: HTMLElement | null } | null;
+};
+
+const sheetGroups = new Map<string, Map<number, SheetGroupMember>>();
+
+export const validateSheetGroup = (group: string | undefined) => {
+  if (group !== undefined && group.trim() === "") {
+    throw new Error("createSheet: `group` must be a non-empty string.");
+  }
+};
+
+export const joinSheetGroup = (group: string, member: SheetGroupMember) => {
+  let members = sheetGroups.get(group);
+  if (!members) {
+    members = new Map();
+    sheetGroups.set(group, members);
+  }
+
+  members.set(member.id, member);
+};
+
+export const leaveSheetGroup = (group: string, memberId: number) => {
+  const members = sheetGroups.get(group);
+  if (!members?.delete(memberId) || members.size > 0) {
+    return;
+  }
+
+  sheetGroups.delete(group);
+};
+
+export const getOpenSheetGroupMembers = (
+  group: string,
+  exceptMemberId: number,
+): SheetGroupMember[] =>
+  Array.from(sheetGroups.get(group)?.values() ?? []).filter(
+    (member) => member.id !== exceptMemberId && member.isOpen(),
+  );
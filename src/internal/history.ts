@@ -0,0 +1,142 @@
+// Shared browser-history coordinator for sheets with `closeOnHistoryBack`.
+// Entries follow open order, so Back always pops the top-most sheet's entry.
+type SheetHistoryEntry = {
+  id: number;
+  onBack: () => void;
+  pushed: boolean;
+  released: boolean;
+};
+
+const SHEET_HISTORY_STATE_KEY = "vsheetHistory";
+// Entries pushed by an earlier page load stay in history across reloads;
+// they carry another runtime token and read as foreign states.
+const sheetHistoryRuntime = Math.random().toString(36).slice(2);
+
+const sheetHistoryEntries: SheetHistoryEntry[] = [];
+let nextSheetHistoryEntryId = 1;
+let isSheetHistoryTraversalPending = false;
+
+const readSheetHistoryEntryId = (state: unknown): number => {
+  if (typeof state !== "object" || state === null) {
+    return 0;
+  }
+
+  const marker = (state as Record<string, unknown>)[SHEET_HISTORY_STATE_KEY];
+  if (typeof marker !== "object" || marker === null) {
+    return 0;
+  }
+
+  const { runtime, id } = marker as { runtime?: unknown; id?: unknown };
+  return runtime === sheetHistoryRuntime && typeof id === "number" ? id : 0;
+};
+
+// Keeps the current state's fields so routers reading `history.state` on a
+// sheet entry still see their own data.
+const pushSheetHistoryState = (entry: SheetHistoryEntry) => {
+  const currentState: unknown = window.history.state;
+  window.history.pushState(
+    {
+      ...(typeof currentState === "object" && currentState !== null
+        ? currentState
+        : {}),
+      [SHEET_HISTORY_STATE_KEY]: { runtime: sheetHistoryRuntime, id: entry.id },
+    },
+    "",
+  );
+  entry.pushed = true;
+};
+
+const removeSheetHistoryEntries = (
+  shouldRemove: (entry: SheetHistoryEntry) => boolean,
+): SheetHistoryEntry[] => {
+  const removedEntries = sheetHistoryEntries.filter(shouldRemove);
+  for (const entry of removedEntries) {
+    sheetHistoryEntries.splice(sheetHistoryEntries.indexOf(entry), 1);
+  }
+
+  return removedEntries;
+};
+
+// Steps back over released entries at the top of the history stack and
+// pushes entries that were requested while a traversal was in flight.
+// Released entries under a foreign state (e.g. a router push) are left for
+// a later `popstate` rather than undoing someone else's navigation.
+const flushSheetHistory = () => {
+  if (isSheetHistoryTraversalPending) {
+    return;
+  }
+
+  removeSheetHistoryEntries((entry) => !entry.pushed && entry.released);
+  const pushedEntries = sheetHistoryEntries.filter((entry) => entry.pushed);
+  let releasedCount = 0;
+  while (
+    releasedCount < pushedEntries.length &&
+    pushedEntries[pushedEntries.length - releasedCount - 1].released
+  ) {
+    releasedCount += 1;
+  }
+
+  if (
+    releasedCount > 0 &&
+    readSheetHistoryEntryId(window.history.state) ===
+      pushedEntries[pushedEntries.length - 1].id
+  ) {
+    isSheetHistoryTraversalPending = true;
+    window.history.go(-releasedCount);
+    return;
+  }
+
+  for (const entry of sheetHistoryEntries) {
+    if (!entry.pushed) {
+      pushSheetHistoryState(entry);
+    }
+  }
+
+  if (sheetHistoryEntries.length === 0) {
+    window.removeEventListener("popstate", handleSheetHistoryPopState);
+  }
+};
+
+// Every pushed entry newer than the restored state was popped; the live
+// ones are closed top-down.
+const handleSheetHistoryPopState = (event: PopStateEvent) => {
+  isSheetHistoryTraversalPending = false;
+  const currentEntryId = readSheetHistoryEntryId(event.state);
+  const poppedEntries = removeSheetHistoryEntries(
+    (entry) => entry.pushed && entry.id > currentEntryId,
+  );
+  for (const entry of poppedEntries.reverse()) {
+    if (!entry.released) {
+      entry.onBack();
+    }
+  }
+
+  flushSheetHistory();
+};
+
+export const pushSheetHistoryEntry = (onBack: () => void): number => {
+  const entry: SheetHistoryEntry = {
+    id: nextSheetHistoryEntryId++,
+    onBack,
+    pushed: false,
+    released: false,
+  };
+  sheetHistoryEntries.push(entry);
+  window.addEventListener("popstate", handleSheetHistoryPopState);
+  flushSheetHistory();
+  return entry.id;
+};
+
+// Called when a sheet closes for any reason other than Back; no-op once
+// `popstate` has already removed the entry.
+export const releaseSheetHistoryEntry = (entryId: number) => {
+  const entry = sheetHistoryEntries.find(
+    (candidate) => candidate.id === entryId,
+  );
+  if (!entry) {
+    return;
+  }
+
+  entry.released = true;
+  flushSheetHistory();
+};
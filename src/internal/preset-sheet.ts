@@ -0,0 +1,13 @@
+import type { MessageSheetOptions, OpenSheetOptions } from "../types";
+
+// Shared defaults for preset sheets: no close button, content-fit mobile
+// height unless snap points are given, and `message` as the description.
+export const resolvePresetSheetOptions = ({
+  message,
+  ...options
+}: MessageSheetOptions): OpenSheetOptions => ({
+  showCloseButton: false,
+  adjustableHeight: options.snapPoints === undefined,
+  ...options,
+  description: message,
+});
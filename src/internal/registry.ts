@@ -0,0 +1,76 @@
+import type { SheetInstance } from "../types";
+
+// Sheets created with an `id`, for lookups and URL deep-linking.
+type RegisteredSheet = {
+  instance: SheetInstance;
+  isOpen: () => boolean;
+  getOpenOrder: () => number;
+};
+
+export type SheetRegistryChange =
+  | { type: "register"; id: string }
+  | { type: "unregister"; id: string }
+  | { type: "open-change"; id: string };
+
+const registeredSheets = new Map<string, RegisteredSheet>();
+const sheetRegistryListeners = new Set<(change: SheetRegistryChange) => void>();
+
+const notifySheetRegistryListeners = (change: SheetRegistryChange) => {
+  for (const listener of Array.from(sheetRegistryListeners)) {
+    listener(change);
+  }
+};
+
+export const validateSheetId = (id: string | undefined) => {
+  if (id === undefined) {
+    return;
+  }
+
+  if (id.trim() === "") {
+    throw new Error("createSheet: `id` must be a non-empty string.");
+  }
+
+  if (registeredSheets.has(id)) {
+    throw new Error(`createSheet: a sheet with id "${id}" already exists.`);
+  }
+};
+
+export const registerSheet = (id: string, sheet: RegisteredSheet) => {
+  registeredSheets.set(id, sheet);
+  notifySheetRegistryListeners({ type: "register", id });
+};
+
+export const unregisterSheet = (id: string) => {
+  if (registeredSheets.delete(id)) {
+    notifySheetRegistryListeners({ type: "unregister", id });
+  }
+};
+
+export const notifySheetOpenChange = (id: string) => {
+  notifySheetRegistryListeners({ type: "open-change", id });
+};
+
+export const subscribeSheetRegistry = (
+  listener: (change: SheetRegistryChange) => void,
+) => {
+  sheetRegistryListeners.add(listener);
+  return () => {
+    sheetRegistryListeners.delete(listener);
+  };
+};
+
+export const getSheetById = (id: string): SheetInstance | undefined =>
+  registeredSheets.get(id)?.instance;
+
+export const isRegisteredSheetOpen = (id: string): boolean =>
+  registeredSheets.get(id)?.isOpen() ?? false;
+
+// Open registered ids, bottom of the stack first.
+export const getOpenRegisteredSheetIds = (): string[] =>
+  Array.from(registeredSheets.entries())
+    .filter(([, sheet]) => sheet.isOpen())
+    .sort(
+      ([, leftSheet], [, rightSheet]) =>
+        leftSheet.getOpenOrder() - rightSheet.getOpenOrder(),
+    )
+    .map(([id]) => id);
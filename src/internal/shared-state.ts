@@ -0,0 +1,38 @@
+// Page-wide state shared by every copy of the library on the page (e.g. one
+// per micro-frontend bundle), so copies coordinate stacking and scroll locks.
+// Bump the version whenever a shared shape changes; copies with another
+// layout then keep separate state instead of misreading each other's.
+const SHARED_SHEET_STATE_VERSION = 1;
+
+export const SHARED_SHEET_STATE_KEY = Symbol.for(
+  `van-sheet.shared-state.v${SHARED_SHEET_STATE_VERSION}`,
+);
+
+type SharedSheetStateStore = Record<string, unknown>;
+
+const getSharedSheetStateStore = (): SharedSheetStateStore => {
+  const globalScope = globalThis as unknown as Record<
+    symbol,
+    SharedSheetStateStore | undefined
+  >;
+  let store = globalScope[SHARED_SHEET_STATE_KEY];
+  if (!store) {
+    store = {};
+    Object.defineProperty(globalScope, SHARED_SHEET_STATE_KEY, {
+      value: store,
+      configurable: true,
+    });
+  }
+
+  return store;
+};
+
+// Returns the entry for `key`, creating it with `create` for the first copy.
+export const getSharedSheetState = <T>(key: string, create: () => T): T => {
+  const store = getSharedSheetStateStore();
+  if (!(key in store)) {
+    store[key] = create();
+  }
+
+  return store[key] as T;
+};
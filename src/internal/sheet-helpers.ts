@@ -1,4 +1,14 @@
-import type { SheetOptions, SheetRenderable, SheetSection } from "../types";
+import type {
+  SheetBreakpoint,
+  SheetDragThreshold,
+  SheetOptions,
+  SheetPlacement,
+  SheetPointerType,
+  SheetRenderable,
+  SheetResponsiveValue,
+  SheetSection,
+  SheetSnapPoint,
+} from "../types";
 import { createDefaultCloseIcon } from "./icons";
 
 // Pure helpers for option normalization and small DOM utility operations.
@@ -51,6 +61,213 @@ export const normalizeSections = (options: SheetOptions): SheetSection[] => {
   return sections;
 };
 
+const PIXEL_SNAP_POINT_PATTERN = /^\d+(\.\d+)?px$/;
+
+const isValidSnapPoint = (snapPoint: SheetSnapPoint): boolean => {
+  if (snapPoint === "content") {
+    return true;
+  }
+
+  if (typeof snapPoint === "number") {
+    return Number.isFinite(snapPoint) && snapPoint > 0 && snapPoint <= 1;
+  }
+
+  return (
+    PIXEL_SNAP_POINT_PATTERN.test(snapPoint) && Number.parseFloat(snapPoint) > 0
+  );
+};
+
+export const normalizeSnapPoints = (
+  options: SheetOptions,
+): SheetSnapPoint[] => {
+  const { snapPoints } = options;
+  if (snapPoints === undefined) {
+    return [];
+  }
+
+  if (options.adjustableHeight) {
+    throw new Error(
+      'createSheet: `snapPoints` cannot be combined with `adjustableHeight`; use a "content" snap point instead.',
+    );
+  }
+
+  if (snapPoints.length === 0) {
+    throw new Error(
+      "createSheet: `snapPoints` must include at least one snap point.",
+    );
+  }
+
+  const invalidSnapPoint = snapPoints.find(
+    (snapPoint) => !isValidSnapPoint(snapPoint),
+  );
+  if (invalidSnapPoint !== undefined) {
+    throw new Error(
+      `createSheet: invalid snap point ${JSON.stringify(invalidSnapPoint)}; use a viewport fraction in (0, 1], a pixel height such as "320px", or "content".`,
+    );
+  }
+
+  return snapPoints;
+};
+
+export const resolveSnapPointHeight = (
+  snapPoint: SheetSnapPoint,
+  viewportHeight: number,
+  getContentHeight: () => number,
+): number => {
+  if (snapPoint === "content") {
+    return getContentHeight();
+  }
+
+  if (typeof snapPoint === "number") {
+    return Math.round(viewportHeight * snapPoint);
+  }
+
+  return Math.round(Number.parseFloat(snapPoint));
+};
+
+export const findNearestSnapPointIndex = (
+  snapPointHeights: number[],
+  height: number,
+): number => {
+  let nearestIndex = 0;
+  for (const [index, snapPointHeight] of snapPointHeights.entries()) {
+    if (
+      Math.abs(snapPointHeight - height) <
+      Math.abs(snapPointHeights[nearestIndex] - height)
+    ) {
+      nearestIndex = index;
+    }
+  }
+
+  return nearestIndex;
+};
+
+// Nearest snap point strictly above (1) or below (-1) `height`, or -1.
+export const findAdjacentSnapPointIndex = (
+  snapPointHeights: number[],
+  height: number,
+  direction: 1 | -1,
+): number => {
+  let adjacentIndex = -1;
+  for (const [index, snapPointHeight] of snapPointHeights.entries()) {
+    const distance = (snapPointHeight - height) * direction;
+    if (
+      distance > 0 &&
+      (adjacentIndex === -1 ||
+        distance < (snapPointHeights[adjacentIndex] - height) * direction)
+    ) {
+      adjacentIndex = index;
+    }
+  }
+
+  return adjacentIndex;
+};
+
+export const isValidDragCloseThreshold = (
+  threshold: SheetDragThreshold,
+): boolean =>
+  typeof threshold === "number"
+    ? Number.isFinite(threshold) && threshold > 0 && threshold <= 1
+    : typeof threshold === "string" &&
+      PIXEL_SNAP_POINT_PATTERN.test(threshold) &&
+      Number.parseFloat(threshold) > 0;
+
+export const resolveDragCloseThreshold = (
+  threshold: SheetDragThreshold,
+  panelExtent: number,
+): number =>
+  typeof threshold === "number"
+    ? panelExtent * threshold
+    : Number.parseFloat(threshold);
+
+const SHEET_PLACEMENTS: SheetPlacement[] = [
+  "bottom",
+  "top",
+  "left",
+  "right",
+  "center",
+];
+
+export const resolveResponsiveValue = <T>(
+  value: SheetResponsiveValue<T> | undefined,
+  breakpoint: SheetBreakpoint,
+): T | undefined => {
+  if (value !== null && typeof value === "object") {
+    return (value as { [K in SheetBreakpoint]?: T })[breakpoint];
+  }
+
+  return value;
+};
+
+export const normalizePlacement = (
+  placement: SheetResponsiveValue<SheetPlacement> = "bottom",
+): Record<SheetBreakpoint, SheetPlacement> => {
+  const placements = {
+    mobile: resolveResponsiveValue(placement, "mobile") ?? "bottom",
+    desktop: resolveResponsiveValue(placement, "desktop") ?? "bottom",
+  };
+
+  for (const resolvedPlacement of Object.values(placements)) {
+    if (!SHEET_PLACEMENTS.includes(resolvedPlacement)) {
+      throw new Error(
+        `createSheet: invalid \`placement\` ${JSON.stringify(resolvedPlacement)}; use "bottom", "top", "left", "right", or "center".`,
+      );
+    }
+  }
+
+  return placements;
+};
+
+const SHEET_POINTER_TYPES: SheetPointerType[] = ["touch", "mouse", "pen"];
+
+export const normalizeDragPointerTypes = (
+  pointerTypes: SheetPointerType[] = SHEET_POINTER_TYPES,
+): Set<string> => {
+  for (const pointerType of pointerTypes) {
+    if (!SHEET_POINTER_TYPES.includes(pointerType)) {
+      throw new Error(
+        `createSheet: invalid \`dragPointerTypes\` entry ${JSON.stringify(pointerType)}; use "touch", "mouse", or "pen".`,
+      );
+    }
+  }
+
+  return new Set(pointerTypes);
+};
+
+export const isHorizontalPlacement = (placement: SheetPlacement): boolean =>
+  placement === "left" || placement === "right";
+
+// Positive when the gesture moves the panel toward its closed edge.
+export const resolveDismissOffset = (
+  placement: SheetPlacement,
+  deltaX: number,
+  deltaY: number,
+): number => {
+  switch (placement) {
+    case "center":
+      // Centered dialogs have no edge to be dragged toward.
+      return 0;
+    case "top":
+      return -deltaY;
+    case "left":
+      return -deltaX;
+    case "right":
+      return deltaX;
+    default:
+      return deltaY;
+  }
+};
+
+export const resolveDismissTransform = (
+  placement: SheetPlacement,
+  distance: number,
+  unit: "px" | "%",
+): string => {
+  const axis = isHorizontalPlacement(placement) ? "X" : "Y";
+  const sign = placement === "top" || placement === "left" ? -1 : 1;
+  return `translate${axis}(${sign * distance || 0}${unit})`;
+};
+
 export const resolveSectionClassName = (section: SheetSection): string => {
   const classNames = ["vsheet-section"];
   if (section.scroll) {
@@ -101,6 +318,24 @@ export const findScrollableAncestor = (
   return null;
 };
 
+// Whether a dismiss-direction drag should scroll the content instead.
+export const hasScrollRoomForDismissGesture = (
+  element: HTMLElement,
+  placement: SheetPlacement,
+): boolean => {
+  if (placement === "bottom") {
+    return element.scrollTop > 0;
+  }
+
+  if (placement === "top") {
+    return (
+      Math.ceil(element.scrollTop + element.clientHeight) < element.scrollHeight
+    );
+  }
+
+  return false;
+};
+
 export const findClosestMatchingAncestor = (
   target: EventTarget | null,
   stopAt: HTMLElement,
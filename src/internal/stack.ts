@@ -1,5 +1,9 @@
-// Shared stack coordinator for all sheet instances in this runtime.
-// Keeps cross-instance layering, top-sheet resolution, and drag-progress sync.
+import type { SheetInstance, SheetReason } from "../types";
+import { getSharedSheetState } from "./shared-state";
+
+// Stack coordinator for the sheets of one scope: the default page-level
+// stack, or an isolated one from `createSheetStack()`. Keeps layering,
+// top-sheet resolution, and drag-progress sync within the scope.
 export type SheetStackSnapshot = {
   depthFromTop: number;
   isTop: boolean;
@@ -7,127 +11,204 @@ export type SheetStackSnapshot = {
   openCount: number;
   visualDepth: number;
   stackDragging: boolean;
+  // Whether any open sheet in the scope asked for `inertBackground`.
+  inertBackground: boolean;
 };
 
 type SheetStackParticipant = {
   id: number;
   isOpen: () => boolean;
   getOpenOrder: () => number;
+  getInstance: () => SheetInstance;
+  inertBackground: boolean;
+  requestClose: (reason: SheetReason) => void;
   applyStackSnapshot: (snapshot: SheetStackSnapshot | null) => void;
 };
 
-const sheetStackParticipants = new Map<number, SheetStackParticipant>();
-let nextSheetStackParticipantId = 1;
-let nextSheetStackOpenOrder = 1;
-let activeStackDragParticipantId: number | null = null;
-let activeStackDragProgress = 0;
-
-const getOpenSheetStackParticipants = (): SheetStackParticipant[] =>
-  Array.from(sheetStackParticipants.values())
-    .filter((participant) => participant.isOpen())
-    .sort(
-      (leftParticipant, rightParticipant) =>
-        leftParticipant.getOpenOrder() - rightParticipant.getOpenOrder(),
-    );
-
-const getTopOpenSheetStackParticipant = (): SheetStackParticipant | null => {
-  const openParticipants = getOpenSheetStackParticipants();
-  if (openParticipants.length === 0) {
-    return null;
-  }
-
-  return openParticipants[openParticipants.length - 1];
-};
-
-export const claimSheetStackParticipantId = () => nextSheetStackParticipantId++;
-
-export const claimSheetStackOpenOrder = () => nextSheetStackOpenOrder++;
+export type SheetStackCoordinator = ReturnType<
+  typeof createSheetStackCoordinator
+>;
+
+// Participant ids stay unique across scopes and library copies since they
+// also seed DOM ids.
+const participantIdCounter = getSharedSheetState(
+  "stackParticipantIdCounter",
+  () => ({ next: 1 }),
+);
+
+export const claimSheetStackParticipantId = () => participantIdCounter.next++;
+
+export const createSheetStackCoordinator = ({
+  lockBodyScroll = true,
+}: {
+  lockBodyScroll?: boolean;
+} = {}) => {
+  const participants = new Map<number, SheetStackParticipant>();
+  const listeners = new Set<() => void>();
+  let nextOpenOrder = 1;
+  let activeDragParticipantId: number | null = null;
+  let activeDragProgress = 0;
+
+  const getOpenParticipants = (): SheetStackParticipant[] =>
+    Array.from(participants.values())
+      .filter((participant) => participant.isOpen())
+      .sort(
+        (leftParticipant, rightParticipant) =>
+          leftParticipant.getOpenOrder() - rightParticipant.getOpenOrder(),
+      );
+
+  const getTopOpenParticipant = (): SheetStackParticipant | null => {
+    const openParticipants = getOpenParticipants();
+    if (openParticipants.length === 0) {
+      return null;
+    }
 
-export const registerSheetStackParticipant = (
-  participant: SheetStackParticipant,
-) => {
-  sheetStackParticipants.set(participant.id, participant);
-};
+    return openParticipants[openParticipants.length - 1];
+  };
+
+  const sync = () => {
+    const openParticipants = getOpenParticipants();
+    const openCount = openParticipants.length;
+    const topParticipant = openParticipants[openCount - 1];
+    const stackDragProgress =
+      topParticipant && activeDragParticipantId === topParticipant.id
+        ? activeDragProgress
+        : 0;
+
+    if (stackDragProgress === 0) {
+      activeDragParticipantId = null;
+      activeDragProgress = 0;
+    }
 
-export const unregisterSheetStackParticipant = (participantId: number) => {
-  sheetStackParticipants.delete(participantId);
-};
+    const stackDragging = stackDragProgress > 0;
+    const inertBackground = openParticipants.some(
+      (participant) => participant.inertBackground,
+    );
+    const openParticipantIds = new Set(
+      openParticipants.map((participant) => participant.id),
+    );
 
-export const isTopOpenSheetStackParticipant = (
-  participantId: number,
-): boolean => getTopOpenSheetStackParticipant()?.id === participantId;
-
-export const syncSheetStackState = () => {
-  const openParticipants = getOpenSheetStackParticipants();
-  const openCount = openParticipants.length;
-  const topParticipant = openParticipants[openCount - 1];
-  const stackDragProgress =
-    topParticipant && activeStackDragParticipantId === topParticipant.id
-      ? activeStackDragProgress
-      : 0;
-
-  if (stackDragProgress === 0) {
-    activeStackDragParticipantId = null;
-    activeStackDragProgress = 0;
-  }
+    for (const [index, participant] of openParticipants.entries()) {
+      const depthFromTop = openCount - index - 1;
+      const visualDepth = Math.max(0, depthFromTop - stackDragProgress);
+      participant.applyStackSnapshot({
+        depthFromTop,
+        isTop: depthFromTop === 0,
+        layer: index,
+        openCount,
+        visualDepth,
+        stackDragging,
+        inertBackground,
+      });
+    }
 
-  const stackDragging = stackDragProgress > 0;
-  const openParticipantIds = new Set(
-    openParticipants.map((participant) => participant.id),
-  );
-
-  for (const [index, participant] of openParticipants.entries()) {
-    const depthFromTop = openCount - index - 1;
-    const visualDepth = Math.max(0, depthFromTop - stackDragProgress);
-    participant.applyStackSnapshot({
-      depthFromTop,
-      isTop: depthFromTop === 0,
-      layer: index,
-      openCount,
-      visualDepth,
-      stackDragging,
-    });
-  }
+    for (const participant of participants.values()) {
+      if (openParticipantIds.has(participant.id)) {
+        continue;
+      }
 
-  for (const participant of sheetStackParticipants.values()) {
-    if (openParticipantIds.has(participant.id)) {
-      continue;
+      participant.applyStackSnapshot(null);
     }
 
-    participant.applyStackSnapshot(null);
-  }
+    for (const listener of Array.from(listeners)) {
+      listener();
+    }
+  };
+
+  return {
+    lockBodyScroll,
+    claimOpenOrder: () => nextOpenOrder++,
+    register: (participant: SheetStackParticipant) => {
+      participants.set(participant.id, participant);
+    },
+    unregister: (participantId: number) => {
+      participants.delete(participantId);
+    },
+    getParticipantCount: () => participants.size,
+    // Open instances, bottom of the stack first.
+    getOpenInstances: (): SheetInstance[] =>
+      getOpenParticipants().map((participant) => participant.getInstance()),
+    // Listeners run on every stack sync, including drag frames; they should
+    // defer work rather than read instances synchronously.
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    isTopOpenParticipant: (participantId: number): boolean =>
+      getTopOpenParticipant()?.id === participantId,
+    closeTopOpenParticipant: (reason: SheetReason) => {
+      getTopOpenParticipant()?.requestClose(reason);
+    },
+    sync,
+    setDragProgress: (participantId: number, progress: number) => {
+      const clampedProgress = Math.max(0, Math.min(1, progress));
+      if (
+        activeDragParticipantId === participantId &&
+        activeDragProgress === clampedProgress
+      ) {
+        return;
+      }
+
+      activeDragParticipantId = participantId;
+      activeDragProgress = clampedProgress;
+      sync();
+    },
+    clearDragProgress: (participantId?: number) => {
+      if (
+        participantId !== undefined &&
+        activeDragParticipantId !== participantId
+      ) {
+        return;
+      }
+
+      if (activeDragParticipantId === null && activeDragProgress === 0) {
+        return;
+      }
+
+      activeDragParticipantId = null;
+      activeDragProgress = 0;
+      sync();
+    },
+  };
 };
 
-export const setSheetStackDragProgress = (
-  participantId: number,
-  progress: number,
+// The page-level stack is shared by every library copy, so sheets from
+// separately bundled copies still layer against each other.
+export const defaultSheetStackCoordinator = getSharedSheetState(
+  "defaultStackCoordinator",
+  () => createSheetStackCoordinator(),
+);
+
+// Public `SheetStack` objects map to their coordinator so `stackScope` can
+// accept them without exposing coordinator internals. Shared so a scope from
+// one copy also works with another copy's `createSheet`.
+const sheetStackCoordinatorsByScope = getSharedSheetState(
+  "stackCoordinatorsByScope",
+  () => new WeakMap<object, SheetStackCoordinator>(),
+);
+
+export const bindSheetStackScope = (
+  scope: object,
+  coordinator: SheetStackCoordinator,
 ) => {
-  const clampedProgress = Math.max(0, Math.min(1, progress));
-  if (
-    activeStackDragParticipantId === participantId &&
-    activeStackDragProgress === clampedProgress
-  ) {
-    return;
-  }
-
-  activeStackDragParticipantId = participantId;
-  activeStackDragProgress = clampedProgress;
-  syncSheetStackState();
+  sheetStackCoordinatorsByScope.set(scope, coordinator);
 };
 
-export const clearSheetStackDragProgress = (participantId?: number) => {
-  if (
-    participantId !== undefined &&
-    activeStackDragParticipantId !== participantId
-  ) {
-    return;
+export const resolveSheetStackCoordinator = (
+  scope: object | undefined,
+): SheetStackCoordinator => {
+  if (scope === undefined) {
+    return defaultSheetStackCoordinator;
   }
 
-  if (activeStackDragParticipantId === null && activeStackDragProgress === 0) {
-    return;
+  const coordinator = sheetStackCoordinatorsByScope.get(scope);
+  if (!coordinator) {
+    throw new Error(
+      "createSheet: `stackScope` must be `sheetStack` or come from `createSheetStack()`.",
+    );
   }
 
-  activeStackDragParticipantId = null;
-  activeStackDragProgress = 0;
-  syncSheetStackState();
+  return coordinator;
 };
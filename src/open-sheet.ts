@@ -0,0 +1,83 @@
+import van from "vanjs-core";
+import { createSheet } from "./create-sheet";
+import type {
+  OpenSheetContext,
+  OpenSheetOptions,
+  SheetInstance,
+  SheetSection,
+} from "./types";
+
+// Opens an ephemeral sheet and resolves with the value passed to
+// `ctx.resolve()`, or `null` when it closes any other way.
+export const openSheet = <T>(
+  options: OpenSheetOptions,
+  render: (ctx: OpenSheetContext<T>) => HTMLElement | string | SheetSection[],
+): Promise<T | null> =>
+  new Promise((resolvePromise) => {
+    const isOpen = van.state(false);
+    let sheet: SheetInstance | null = null;
+    let result: { value: T } | null = null;
+    let settled = false;
+
+    const settle = (value: T | null) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      resolvePromise(value);
+    };
+
+    // The result settles once the close is applied, so a vetoed close keeps
+    // the sheet open and the promise pending. Calls while closed are ignored.
+    const requestClose = (nextResult: { value: T } | null) => {
+      if (!isOpen.val) {
+        return;
+      }
+
+      result = nextResult;
+      void sheet?.close("api");
+    };
+
+    const ctx: OpenSheetContext<T> = {
+      resolve: (value) => requestClose({ value }),
+      dismiss: () => requestClose(null),
+      get sheet() {
+        if (!sheet) {
+          throw new Error(
+            "openSheet: `ctx.sheet` is not available until the render callback returns.",
+          );
+        }
+
+        return sheet;
+      },
+    };
+
+    const rendered = render(ctx);
+    const openedSheet = createSheet({
+      ...options,
+      isOpen,
+      ...(Array.isArray(rendered)
+        ? { sections: rendered }
+        : { content: rendered }),
+      destroyOnClose: true,
+      onOpenChange: (open, reason) => {
+        if (!open) {
+          settle(reason === "api" && result ? result.value : null);
+        }
+
+        options.onOpenChange?.(open, reason);
+      },
+    });
+    sheet = openedSheet;
+
+    requestAnimationFrame(() => {
+      void openedSheet.open().then((opened) => {
+        // A vetoed open never reaches `onOpenChange`; release the sheet.
+        if (!opened && !isOpen.val) {
+          settle(null);
+          openedSheet.destroy();
+        }
+      });
+    });
+  });
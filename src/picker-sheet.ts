@@ -0,0 +1,368 @@
+import van from "vanjs-core";
+import { focusElement } from "./internal/focus";
+import { resolvePresetSheetOptions } from "./internal/preset-sheet";
+import { openSheet } from "./open-sheet";
+import type {
+  MultiPickerSheetOptions,
+  PickerSheetOptions,
+  SinglePickerSheetOptions,
+} from "./types";
+
+const { button, div, input } = van.tags;
+
+// Only a bounded window of matches is rendered; spacers stand in for the
+// rest, and the window follows scrolling and the active option so large
+// lists open, filter and navigate quickly.
+const PICKER_RENDER_CHUNK_SIZE = 100;
+const PICKER_RENDER_WINDOW_SIZE = 300;
+// Row height for spacers until an option has been laid out.
+const PICKER_ESTIMATED_OPTION_HEIGHT_PX = 44;
+
+let nextPickerId = 1;
+
+const normalizeInitialKeys = <T>(
+  options: PickerSheetOptions<T>,
+  keyOf: (item: T) => unknown,
+): Set<unknown> => {
+  if (options.initialValue === undefined) {
+    return new Set();
+  }
+
+  if (options.multiple) {
+    if (!Array.isArray(options.initialValue)) {
+      throw new Error(
+        "openPickerSheet: `initialValue` must be an array when `multiple` is true.",
+      );
+    }
+
+    return new Set(options.initialValue.map(keyOf));
+  }
+
+  return new Set([keyOf(options.initialValue)]);
+};
+
+// Listbox picker; resolves with the selection on Done (an array when
+// `multiple`), or `null` for every other dismissal.
+export function openPickerSheet<T>(
+  options: SinglePickerSheetOptions<T>,
+): Promise<T | null>;
+export function openPickerSheet<T>(
+  options: MultiPickerSheetOptions<T>,
+): Promise<T[] | null>;
+export function openPickerSheet<T>(
+  pickerOptions: PickerSheetOptions<T>,
+): Promise<T | T[] | null> {
+  const {
+    items,
+    multiple = false,
+    searchable = false,
+    searchPlaceholder = "Search",
+    itemLabel = String,
+    itemKey = (item: T) => item,
+    renderItem,
+    doneLabel = "Done",
+    emptyLabel = "No results",
+    initialValue: _initialValue,
+    ...options
+  } = pickerOptions;
+  const selectedKeys = normalizeInitialKeys(pickerOptions, itemKey);
+  const itemKeys = items.map(itemKey);
+  const searchLabels = items.map((item) => itemLabel(item).toLocaleLowerCase());
+  const pickerId = `vsheet-picker-${nextPickerId++}`;
+  const listboxId = `${pickerId}-listbox`;
+
+  let matches = items.map((_, index) => index);
+  let windowStart = 0;
+  let windowEnd = 0;
+  let activePosition = -1;
+  let optionHeight = 0;
+  // Only holds the rendered window's options.
+  const optionElements = new Map<number, HTMLElement>();
+
+  const listbox = div({
+    id: listboxId,
+    class: "vsheet-picker-listbox",
+    role: "listbox",
+    tabindex: "0",
+    ...(multiple ? { "aria-multiselectable": "true" } : {}),
+    ...(typeof options.title === "string"
+      ? { "aria-label": options.title }
+      : {}),
+  });
+  const topSpacer = div({
+    class: "vsheet-picker-spacer",
+    "aria-hidden": "true",
+  });
+  const bottomSpacer = div({
+    class: "vsheet-picker-spacer",
+    "aria-hidden": "true",
+  });
+  const emptyState = div(
+    { class: "vsheet-picker-empty", hidden: items.length > 0 },
+    emptyLabel,
+  );
+  const doneButton = button(
+    { type: "button", class: "vsheet-action vsheet-dialog-confirm" },
+    doneLabel,
+  );
+
+  const syncDoneButton = () => {
+    doneButton.disabled = !multiple && selectedKeys.size === 0;
+  };
+
+  const syncOptionSelection = (index: number) => {
+    optionElements
+      .get(index)
+      ?.setAttribute(
+        "aria-selected",
+        selectedKeys.has(itemKeys[index]) ? "true" : "false",
+      );
+  };
+
+  const toggleItem = (index: number) => {
+    const key = itemKeys[index];
+    if (multiple) {
+      if (!selectedKeys.delete(key)) {
+        selectedKeys.add(key);
+      }
+      syncOptionSelection(index);
+    } else {
+      selectedKeys.clear();
+      selectedKeys.add(key);
+      for (const optionIndex of optionElements.keys()) {
+        syncOptionSelection(optionIndex);
+      }
+    }
+
+    syncDoneButton();
+  };
+
+  const getOptionElement = (index: number): HTMLElement => {
+    const cached = optionElements.get(index);
+    if (cached) {
+      return cached;
+    }
+
+    const item = items[index];
+    const optionElement = div(
+      {
+        id: `${pickerId}-option-${index}`,
+        class: "vsheet-picker-option",
+        role: "option",
+        "data-picker-index": `${index}`,
+        onclick: () => {
+          setActivePosition(matches.indexOf(index));
+          toggleItem(index);
+        },
+      },
+      renderItem ? renderItem(item) : itemLabel(item),
+    );
+    optionElements.set(index, optionElement);
+    syncOptionSelection(index);
+    return optionElement;
+  };
+
+  const getOptionHeight = () => {
+    if (optionHeight === 0) {
+      const firstOption = listbox.firstElementChild;
+      optionHeight =
+        firstOption instanceof HTMLElement ? firstOption.offsetHeight : 0;
+    }
+
+    return optionHeight || PICKER_ESTIMATED_OPTION_HEIGHT_PX;
+  };
+
+  const renderWindow = (start: number, end: number) => {
+    windowStart = Math.max(0, Math.min(start, matches.length));
+    windowEnd = Math.max(
+      windowStart,
+      Math.min(end, matches.length, windowStart + PICKER_RENDER_WINDOW_SIZE),
+    );
+    const windowIndexes = new Set(matches.slice(windowStart, windowEnd));
+    for (const index of optionElements.keys()) {
+      if (!windowIndexes.has(index)) {
+        optionElements.delete(index);
+      }
+    }
+
+    const optionNodes = [];
+    for (let position = windowStart; position < windowEnd; position += 1) {
+      const optionElement = getOptionElement(matches[position]);
+      // Positions within the full list, since most options are not rendered.
+      optionElement.setAttribute("aria-setsize", `${matches.length}`);
+      optionElement.setAttribute("aria-posinset", `${position + 1}`);
+      if (position === activePosition) {
+        optionElement.dataset.active = "true";
+      } else {
+        delete optionElement.dataset.active;
+      }
+      optionNodes.push(optionElement);
+    }
+    listbox.replaceChildren(...optionNodes);
+
+    const rowHeight = getOptionHeight();
+    topSpacer.style.height = `${windowStart * rowHeight}px`;
+    bottomSpacer.style.height = `${(matches.length - windowEnd) * rowHeight}px`;
+  };
+
+  // Keeps a chunk of options rendered on either side of `position`.
+  const renderWindowAround = (position: number) => {
+    const start = Math.max(0, position - PICKER_RENDER_CHUNK_SIZE);
+    renderWindow(start, start + PICKER_RENDER_WINDOW_SIZE);
+  };
+
+  const setActivePosition = (position: number) => {
+    optionElements.get(matches[activePosition])?.removeAttribute("data-active");
+    activePosition = position;
+    if (position < 0 || position >= matches.length) {
+      listbox.removeAttribute("aria-activedescendant");
+      return;
+    }
+
+    if (position < windowStart || position >= windowEnd) {
+      renderWindowAround(position);
+    }
+
+    const optionElement = getOptionElement(matches[position]);
+    optionElement.dataset.active = "true";
+    listbox.setAttribute("aria-activedescendant", optionElement.id);
+    optionElement.scrollIntoView?.({ block: "nearest" });
+  };
+
+  const applyFilter = (query: string) => {
+    const normalizedQuery = query.trim().toLocaleLowerCase();
+    setActivePosition(-1);
+    matches = items
+      .map((_, index) => index)
+      .filter((index) => searchLabels[index].includes(normalizedQuery));
+    renderWindow(0, PICKER_RENDER_CHUNK_SIZE);
+    emptyState.hidden = matches.length > 0;
+  };
+
+  const handleListboxKeydown = (event: KeyboardEvent) => {
+    const lastPosition = matches.length - 1;
+    switch (event.key) {
+      case "ArrowDown":
+        setActivePosition(Math.min(activePosition + 1, lastPosition));
+        break;
+      case "ArrowUp":
+        setActivePosition(Math.max(activePosition - 1, 0));
+        break;
+      case "Home":
+        setActivePosition(0);
+        break;
+      case "End":
+        setActivePosition(lastPosition);
+        break;
+      case "Enter":
+      case " ":
+        if (activePosition >= 0) {
+          toggleItem(matches[activePosition]);
+        }
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  };
+  // Activation starts on the first selected match so the selection is in view.
+  const activateInitialOption = () => {
+    if (activePosition >= 0 || matches.length === 0) {
+      return;
+    }
+
+    const selectedPosition = matches.findIndex((index) =>
+      selectedKeys.has(itemKeys[index]),
+    );
+    setActivePosition(Math.max(selectedPosition, 0));
+  };
+  listbox.addEventListener("keydown", handleListboxKeydown);
+  listbox.addEventListener("focus", activateInitialOption);
+
+  renderWindow(0, PICKER_RENDER_CHUNK_SIZE);
+  syncDoneButton();
+
+  const result = openSheet<T | T[]>(
+    {
+      initialFocus: `#${listboxId}`,
+      ...resolvePresetSheetOptions({ adjustableHeight: false, ...options }),
+    },
+    ({ resolve }) => {
+      doneButton.addEventListener("click", () => {
+        const selectedItems = items.filter((_, index) =>
+          selectedKeys.has(itemKeys[index]),
+        );
+        if (multiple) {
+          resolve(selectedItems);
+        } else if (selectedItems.length > 0) {
+          resolve(selectedItems[0]);
+        }
+      });
+
+      const searchInput = input({
+        type: "search",
+        class: "vsheet-picker-search-input",
+        placeholder: searchPlaceholder,
+        "aria-label": searchPlaceholder,
+        "aria-controls": listboxId,
+        oninput: () => applyFilter(searchInput.value),
+        onkeydown: (event: KeyboardEvent) => {
+          if (event.key === "ArrowDown" && matches.length > 0) {
+            event.preventDefault();
+            focusElement(listbox);
+            activateInitialOption();
+          }
+        },
+      });
+
+      return [
+        ...(searchable
+          ? [{ content: searchInput, className: "vsheet-picker-search" }]
+          : []),
+        {
+          content: div(
+            { class: "vsheet-picker-list" },
+            topSpacer,
+            listbox,
+            bottomSpacer,
+            emptyState,
+          ),
+          scroll: true,
+        },
+        {
+          content: div({ class: "vsheet-dialog-actions" }, doneButton),
+          className: "vsheet-dialog-footer",
+        },
+      ];
+    },
+  );
+
+  // The sheet mounts synchronously, so the scroll section exists here.
+  const scrollSection = listbox.closest<HTMLElement>(".vsheet-content");
+  scrollSection?.addEventListener("scroll", () => {
+    if (matches.length === 0) {
+      return;
+    }
+
+    const rowHeight = getOptionHeight();
+    const listOffset =
+      scrollSection.getBoundingClientRect().top -
+      topSpacer.getBoundingClientRect().top;
+    const firstVisible = Math.min(
+      matches.length - 1,
+      Math.max(0, Math.floor(listOffset / rowHeight)),
+    );
+    const lastVisible =
+      firstVisible + Math.ceil(scrollSection.clientHeight / rowHeight);
+    const margin = PICKER_RENDER_CHUNK_SIZE / 2;
+    if (
+      (windowStart > 0 && firstVisible - margin < windowStart) ||
+      (windowEnd < matches.length && lastVisible + margin > windowEnd)
+    ) {
+      renderWindowAround(firstVisible);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,155 @@
+import { isValidDragCloseThreshold } from "./internal/sheet-helpers";
+import type { SheetDefaults, SheetOptions, SheetTuningOptions } from "./types";
+
+export type ResolvedSheetTuning = Required<SheetTuningOptions>;
+
+const BUILT_IN_SHEET_TUNING: ResolvedSheetTuning = {
+  dragCloseThreshold: "150px",
+  flingVelocityThreshold: 0.5,
+  dragAxisLockThreshold: 8,
+  transitionFallbackMs: 550,
+  stackOffsetStep: 12,
+  stackScaleStep: 0.04,
+  stackMinScale: 0.72,
+  mobileMaxHeightRatio: 0.95,
+};
+
+const isNonNegativeNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const isPositiveNumber = (value: unknown) =>
+  isNonNegativeNumber(value) && (value as number) > 0;
+
+const isUnitFraction = (value: unknown) =>
+  isPositiveNumber(value) && (value as number) <= 1;
+
+const SHEET_TUNING_RULES: {
+  [K in keyof ResolvedSheetTuning]: [
+    isValid: (value: ResolvedSheetTuning[K]) => boolean,
+    hint: string,
+  ];
+} = {
+  dragCloseThreshold: [
+    isValidDragCloseThreshold,
+    'a panel fraction in (0, 1] or a pixel distance such as "150px"',
+  ],
+  flingVelocityThreshold: [
+    isPositiveNumber,
+    "a positive number of pixels per millisecond",
+  ],
+  dragAxisLockThreshold: [isNonNegativeNumber, "a non-negative pixel distance"],
+  transitionFallbackMs: [
+    isNonNegativeNumber,
+    "a non-negative number of milliseconds",
+  ],
+  stackOffsetStep: [isNonNegativeNumber, "a non-negative pixel distance"],
+  stackScaleStep: [
+    (value) => isNonNegativeNumber(value) && value < 1,
+    "a number in [0, 1)",
+  ],
+  stackMinScale: [isUnitFraction, "a number in (0, 1]"],
+  mobileMaxHeightRatio: [isUnitFraction, "a viewport fraction in (0, 1]"],
+};
+
+const SHEET_TUNING_KEYS = Object.keys(SHEET_TUNING_RULES) as Array<
+  keyof ResolvedSheetTuning
+>;
+
+let globalSheetDefaults: SheetDefaults = {};
+
+// Keeps only tuning keys, dropping `undefined` values, and validates them.
+const pickSheetTuning = (
+  options: SheetTuningOptions,
+  source: string,
+): SheetTuningOptions => {
+  const tuning: Record<string, unknown> = {};
+  for (const key of SHEET_TUNING_KEYS) {
+    const value = options[key];
+    if (value === undefined) {
+      continue;
+    }
+
+    const [isValid, hint] = SHEET_TUNING_RULES[key] as [
+      (value: unknown) => boolean,
+      string,
+    ];
+    if (!isValid(value)) {
+      throw new Error(
+        `${source}: invalid \`${key}\` ${JSON.stringify(value)}; use ${hint}.`,
+      );
+    }
+
+    tuning[key] = value;
+  }
+
+  return tuning as SheetTuningOptions;
+};
+
+export const validateSheetDefaults = (
+  defaults: SheetDefaults,
+  source: string,
+) => {
+  pickSheetTuning(defaults, source);
+};
+
+// Layers `overrides` on `base`; `undefined` overrides fall through to `base`.
+export const mergeSheetOptions = <T extends SheetDefaults>(
+  base: SheetDefaults,
+  overrides: T,
+): T => {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return merged as T;
+};
+
+const updateGlobalSheetDefaults = (defaults: SheetDefaults, source: string) => {
+  validateSheetDefaults(defaults, source);
+  const nextDefaults = mergeSheetOptions(
+    globalSheetDefaults,
+    defaults,
+  ) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(defaults)) {
+    if (value === undefined) {
+      delete nextDefaults[key];
+    }
+  }
+
+  globalSheetDefaults = nextDefaults as SheetDefaults;
+};
+
+// Both setters apply to sheets created afterwards; `undefined` clears a key.
+export const setSheetDefaults = (defaults: SheetDefaults) => {
+  updateGlobalSheetDefaults(defaults, "setSheetDefaults");
+};
+
+export const getSheetDefaults = (): SheetDefaults => ({
+  ...globalSheetDefaults,
+});
+
+export const configureSheetDefaults = (tuning: SheetTuningOptions) => {
+  const tuningDefaults: Record<string, unknown> = {};
+  for (const key of SHEET_TUNING_KEYS) {
+    if (key in tuning) {
+      tuningDefaults[key] = tuning[key];
+    }
+  }
+
+  updateGlobalSheetDefaults(tuningDefaults, "configureSheetDefaults");
+};
+
+// Call options win over global defaults.
+export const applySheetDefaults = (options: SheetOptions): SheetOptions =>
+  mergeSheetOptions(globalSheetDefaults, options);
+
+// Expects options that already include global defaults.
+export const resolveSheetTuning = (
+  options: SheetTuningOptions,
+): ResolvedSheetTuning => ({
+  ...BUILT_IN_SHEET_TUNING,
+  ...pickSheetTuning(options, "createSheet"),
+});
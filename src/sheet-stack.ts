@@ -0,0 +1,133 @@
+import van from "vanjs-core";
+import {
+  bindSheetStackScope,
+  createSheetStackCoordinator,
+  defaultSheetStackCoordinator,
+  type SheetStackCoordinator,
+} from "./internal/stack";
+import type {
+  SheetInstance,
+  SheetReason,
+  SheetStack,
+  SheetStackOptions,
+} from "./types";
+
+// Delay between starting each close in `closeAllSheets`, so layers peel
+// off one after another instead of animating out together.
+const SHEET_STACK_CLOSE_STAGGER_MS = 80;
+
+const waitForCloseStagger = () =>
+  new Promise<null>((resolve) => {
+    window.setTimeout(() => resolve(null), SHEET_STACK_CLOSE_STAGGER_MS);
+  });
+
+const createSheetStackApi = (
+  coordinator: SheetStackCoordinator,
+): SheetStack => {
+  const openSheets = van.state<readonly SheetInstance[]>(
+    coordinator.getOpenInstances(),
+  );
+  const changeListeners = new Set<
+    (openSheets: readonly SheetInstance[]) => void
+  >();
+  let isOpenSheetsSyncScheduled = false;
+
+  const syncOpenSheets = () => {
+    isOpenSheetsSyncScheduled = false;
+    const nextOpenSheets = coordinator.getOpenInstances();
+    const previousOpenSheets = openSheets.val;
+    if (
+      nextOpenSheets.length === previousOpenSheets.length &&
+      nextOpenSheets.every(
+        (sheet, index) => sheet === previousOpenSheets[index],
+      )
+    ) {
+      return;
+    }
+
+    openSheets.val = nextOpenSheets;
+    for (const listener of Array.from(changeListeners)) {
+      listener(nextOpenSheets);
+    }
+  };
+
+  coordinator.subscribe(() => {
+    if (isOpenSheetsSyncScheduled) {
+      return;
+    }
+
+    isOpenSheetsSyncScheduled = true;
+    queueMicrotask(syncOpenSheets);
+  });
+
+  const getTopSheet = (): SheetInstance | null =>
+    coordinator.getOpenInstances().at(-1) ?? null;
+
+  // Resolves `true` once the sheet leaves the open stack, or with the close
+  // result if that settles first (a veto, including a pending guard's).
+  const waitForCloseApplied = (
+    sheet: SheetInstance,
+    closeResult: Promise<boolean>,
+  ) =>
+    new Promise<boolean>((resolve) => {
+      const settle = (applied: boolean) => {
+        unsubscribe();
+        resolve(applied);
+      };
+      const checkClosed = () => {
+        if (!coordinator.getOpenInstances().includes(sheet)) {
+          settle(true);
+        }
+      };
+      const unsubscribe = coordinator.subscribe(() => {
+        queueMicrotask(checkClosed);
+      });
+      void closeResult.then(settle);
+      checkClosed();
+    });
+
+  // Closes top-down, starting each close a stagger after the previous one
+  // was applied. A veto stops the sweep so nothing closes beneath a sheet
+  // that stayed open; resolves `true` once every sheet has finished closing.
+  const closeAllSheets = async (reason: SheetReason = "api") => {
+    const closeResults: Promise<boolean>[] = [];
+    for (const sheet of coordinator.getOpenInstances().reverse()) {
+      const closeResult = sheet.close(reason);
+      closeResults.push(closeResult);
+      if (
+        !(await waitForCloseApplied(sheet, closeResult)) ||
+        (await Promise.race([closeResult, waitForCloseStagger()])) === false
+      ) {
+        return false;
+      }
+    }
+
+    const closed = await Promise.all(closeResults);
+    return closed.every(Boolean);
+  };
+
+  const stack: SheetStack = {
+    openSheets,
+    getTopSheet,
+    closeTopSheet: (reason = "api") =>
+      getTopSheet()?.close(reason) ?? Promise.resolve(false),
+    closeAllSheets,
+    subscribe: (listener) => {
+      changeListeners.add(listener);
+      return () => {
+        changeListeners.delete(listener);
+      };
+    },
+  };
+  bindSheetStackScope(stack, coordinator);
+  return stack;
+};
+
+// Isolated stack scope, e.g. for sheets mounted inside an embedded widget.
+// Pass it as `stackScope` to keep its sheets out of the page-level stack.
+export const createSheetStack = ({
+  lockBodyScroll = true,
+}: SheetStackOptions = {}): SheetStack =>
+  createSheetStackApi(createSheetStackCoordinator({ lockBodyScroll }));
+
+export const sheetStack = createSheetStackApi(defaultSheetStackCoordinator);
@@ -7,39 +7,224 @@ export type SheetReason =
   | "backdrop"
   | "escape"
   | "drag"
-  | "close-button";
+  | "close-button"
+  | "history"
+  | "replaced";
+
+// Transition-aware lifecycle: "opening"/"closing" last until the panel
+// transition ends (or `transitionFallbackMs` elapses).
+export type SheetPhase = "closed" | "opening" | "open" | "closing";
+
+// API closes and group replacements are never blocked by `dismissOn`.
+export type SheetDismissReason = Exclude<SheetReason, "api" | "replaced">;
+
+// `event` is the triggering DOM event; `undefined` for `close(reason)` calls.
+export type SheetDismissPolicy = boolean | ((event?: Event) => boolean);
 
 export type SheetRenderable =
   | HTMLElement
   | string
   | (() => HTMLElement | string);
 
+export type SheetPlacement = "bottom" | "top" | "left" | "right" | "center";
+
+export type SheetBreakpoint = "mobile" | "desktop";
+
+export type SheetResponsiveValue<T> = T | { [K in SheetBreakpoint]?: T };
+
+export type SheetSnapPoint = number | `${number}px` | "content";
+
+export type SheetDragThreshold = number | `${number}px`;
+
+export type SheetPointerType = "touch" | "mouse" | "pen";
+
+export type SheetInitialFocus = HTMLElement | string | false;
+
 export interface SheetSection {
   content: SheetRenderable;
   scroll?: boolean;
   className?: string;
 }
 
-export interface SheetOptions {
+// Gesture, animation and layout tuning; settable per sheet or globally via
+// `configureSheetDefaults()`.
+export interface SheetTuningOptions {
+  dragCloseThreshold?: SheetDragThreshold;
+  flingVelocityThreshold?: number;
+  dragAxisLockThreshold?: number;
+  transitionFallbackMs?: number;
+  stackOffsetStep?: number;
+  stackScaleStep?: number;
+  stackMinScale?: number;
+  mobileMaxHeightRatio?: number;
+}
+
+export interface SheetOptions extends SheetTuningOptions {
   isOpen: VanState<boolean>;
+  id?: string;
+  placement?: SheetResponsiveValue<SheetPlacement>;
+  width?: SheetResponsiveValue<string>;
   content?: SheetRenderable;
   sections?: SheetSection[];
   dragStartBlockSelector?: string;
+  dragPointerTypes?: SheetPointerType[];
   adjustableHeight?: boolean;
+  snapPoints?: SheetSnapPoint[];
+  activeSnapPoint?: VanState<number>;
+  title?: SheetRenderable;
+  description?: SheetRenderable;
+  ariaLabel?: string;
+  ariaLabelledBy?: string;
+  ariaDescribedBy?: string;
   floatingCloseButton?: boolean;
   closeIcon?: HTMLElement | (() => HTMLElement);
   mountTo?: HTMLElement | string;
   dismissible?: boolean;
+  dismissOn?: { [K in SheetDismissReason]?: SheetDismissPolicy };
   closeOnBackdrop?: boolean;
   closeOnEscape?: boolean;
+  closeOnHistoryBack?: boolean;
   showBackdrop?: boolean;
   showCloseButton?: boolean;
+  inertBackground?: boolean;
+  stackScope?: SheetStack;
+  group?: string;
+  initialFocus?: SheetInitialFocus;
+  returnFocus?: boolean | HTMLElement;
+  destroyOnClose?: boolean;
+  beforeOpen?: (reason: SheetReason) => boolean | Promise<boolean>;
+  beforeClose?: (reason: SheetReason) => boolean | Promise<boolean>;
   onOpenChange?: (open: boolean, reason: SheetReason) => void;
+  onAfterOpen?: (reason: SheetReason) => void;
+  onAfterClose?: (reason: SheetReason) => void;
+  onSnapPointChange?: (index: number, reason: SheetReason) => void;
 }
 
+// Options that can be shared across sheets through global or factory defaults.
+export type SheetDefaults = Partial<
+  Omit<
+    SheetOptions,
+    "isOpen" | "id" | "content" | "sections" | "activeSnapPoint"
+  >
+>;
+
 export interface SheetInstance {
   element: HTMLElement;
-  open: () => void;
-  close: (reason?: SheetReason) => void;
+  open: () => Promise<boolean>;
+  close: (reason?: SheetReason) => Promise<boolean>;
+  phase: VanState<SheetPhase>;
+  activeSnapPoint: VanState<number>;
+  snapTo: (index: number, reason?: SheetReason) => void;
   destroy: () => void;
 }
+
+export type OpenSheetOptions = Omit<
+  SheetOptions,
+  "isOpen" | "content" | "sections" | "destroyOnClose"
+>;
+
+// `sheet` is available once the render callback has returned.
+export interface OpenSheetContext<T> {
+  resolve: (value: T) => void;
+  dismiss: () => void;
+  readonly sheet: SheetInstance;
+}
+
+export interface SheetAction<K extends string = string> {
+  key: K;
+  label: string;
+  destructive?: boolean;
+  disabled?: boolean;
+}
+
+// Base options for the preset sheets; `message` renders as the description.
+export interface MessageSheetOptions
+  extends Omit<OpenSheetOptions, "description"> {
+  message?: SheetRenderable;
+}
+
+export interface ActionSheetOptions<K extends string = string>
+  extends MessageSheetOptions {
+  actions: SheetAction<K>[];
+  cancelLabel?: string;
+}
+
+export interface AlertSheetOptions extends MessageSheetOptions {
+  okLabel?: string;
+}
+
+export interface ConfirmSheetOptions extends MessageSheetOptions {
+  confirmLabel?: string;
+  cancelLabel?: string;
+  destructive?: boolean;
+}
+
+export type PromptSheetInputType =
+  | "text"
+  | "email"
+  | "number"
+  | "password"
+  | "search"
+  | "tel"
+  | "url";
+
+export interface PromptSheetOptions extends ConfirmSheetOptions {
+  label?: string;
+  defaultValue?: string;
+  placeholder?: string;
+  inputType?: PromptSheetInputType;
+}
+
+export interface PickerSheetBaseOptions<T> extends MessageSheetOptions {
+  items: T[];
+  searchable?: boolean;
+  searchPlaceholder?: string;
+  // Label used for search matching and default rendering; `String(item)`.
+  itemLabel?: (item: T) => string;
+  // Identity used to match `initialValue`; defaults to the item itself.
+  itemKey?: (item: T) => unknown;
+  renderItem?: (item: T) => HTMLElement | string;
+  doneLabel?: string;
+  emptyLabel?: string;
+}
+
+export interface SinglePickerSheetOptions<T> extends PickerSheetBaseOptions<T> {
+  multiple?: false;
+  initialValue?: T;
+}
+
+export interface MultiPickerSheetOptions<T> extends PickerSheetBaseOptions<T> {
+  multiple: true;
+  initialValue?: T[];
+}
+
+export type PickerSheetOptions<T> =
+  | SinglePickerSheetOptions<T>
+  | MultiPickerSheetOptions<T>;
+
+// `"query"` stores open sheet ids as repeated `?<param>=` entries; `"hash"`
+// stores them as a comma-separated fragment.
+export type SheetUrlSyncMode = "query" | "hash";
+
+export type SheetUrlHistoryMode = "push" | "replace";
+
+export interface SheetUrlSyncOptions {
+  mode?: SheetUrlSyncMode;
+  param?: string;
+  history?: SheetUrlHistoryMode;
+}
+
+export interface SheetStackOptions {
+  lockBodyScroll?: boolean;
+}
+
+export interface SheetStack {
+  // Open sheets, bottom of the stack first; updates once per batch of changes.
+  openSheets: Readonly<VanState<readonly SheetInstance[]>>;
+  getTopSheet: () => SheetInstance | null;
+  closeTopSheet: (reason?: SheetReason) => Promise<boolean>;
+  closeAllSheets: (reason?: SheetReason) => Promise<boolean>;
+  subscribe: (
+    listener: (openSheets: readonly SheetInstance[]) => void,
+  ) => () => void;
+}
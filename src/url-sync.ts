@@ -0,0 +1,154 @@
+import {
+  getOpenRegisteredSheetIds,
+  getSheetById,
+  isRegisteredSheetOpen,
+  type SheetRegistryChange,
+  subscribeSheetRegistry,
+} from "./internal/registry";
+import type { SheetUrlSyncMode, SheetUrlSyncOptions } from "./types";
+
+let isUrlSyncActive = false;
+
+// Malformed escapes (e.g. a hand-edited fragment) drop the id instead of
+// throwing out of startup or a navigation handler.
+const decodeUrlSheetId = (id: string): string | null => {
+  try {
+    return decodeURIComponent(id);
+  } catch {
+    return null;
+  }
+};
+
+const readUrlSheetIds = (mode: SheetUrlSyncMode, param: string): string[] => {
+  const url = new URL(window.location.href);
+  if (mode === "query") {
+    return url.searchParams.getAll(param);
+  }
+
+  return url.hash
+    .slice(1)
+    .split(",")
+    .filter(Boolean)
+    .map(decodeUrlSheetId)
+    .filter((id): id is string => id !== null);
+};
+
+// Keeps the URL in step with open sheets that have an `id`: listed ids open
+// on start, on registration, and on `popstate` / `hashchange`; opening and
+// closing rewrites the URL. Returns a function that stops syncing.
+export const syncSheetsWithUrl = ({
+  mode = "query",
+  param = "sheet",
+  history = "replace",
+}: SheetUrlSyncOptions = {}): (() => void) => {
+  if (isUrlSyncActive) {
+    throw new Error("syncSheetsWithUrl: URL sync is already active.");
+  }
+
+  if (mode === "query" && param.trim() === "") {
+    throw new Error("syncSheetsWithUrl: `param` must be a non-empty string.");
+  }
+
+  const initialUrlIds = readUrlSheetIds(mode, param);
+  isUrlSyncActive = true;
+  let isStopped = false;
+  let isUrlWriteScheduled = false;
+  // Listed ids without a registered sheet yet; kept in the URL so sheets
+  // created after startup still open from the link.
+  let pendingUrlIds: string[] = [];
+
+  const writeUrlSheetIds = () => {
+    isUrlWriteScheduled = false;
+    if (isStopped) {
+      return;
+    }
+
+    const openIds = getOpenRegisteredSheetIds();
+    const urlIds = [
+      ...openIds,
+      ...pendingUrlIds.filter((id) => !openIds.includes(id)),
+    ];
+    const url = new URL(window.location.href);
+    if (mode === "query") {
+      url.searchParams.delete(param);
+      for (const id of urlIds) {
+        url.searchParams.append(param, id);
+      }
+    } else {
+      url.hash = urlIds.map((id) => encodeURIComponent(id)).join(",");
+    }
+
+    if (url.href === window.location.href) {
+      return;
+    }
+
+    if (history === "push") {
+      window.history.pushState(window.history.state, "", url);
+    } else {
+      window.history.replaceState(window.history.state, "", url);
+    }
+  };
+
+  // Open changes land from each sheet's derive; batching the write until
+  // they have all run keeps stacked sheets to one URL update.
+  const scheduleUrlWrite = () => {
+    if (isUrlWriteScheduled) {
+      return;
+    }
+
+    isUrlWriteScheduled = true;
+    queueMicrotask(writeUrlSheetIds);
+  };
+
+  const openUrlSheets = (ids: string[]) => {
+    pendingUrlIds = ids.filter((id) => getSheetById(id) === undefined);
+    for (const id of ids) {
+      if (!isRegisteredSheetOpen(id)) {
+        void getSheetById(id)?.open();
+      }
+    }
+  };
+
+  // Back/forward and fragment navigation: close the top-most unlisted
+  // sheets first, then open listed ones in URL order.
+  const applyUrlSheetIds = () => {
+    const urlIds = readUrlSheetIds(mode, param);
+    for (const id of getOpenRegisteredSheetIds().reverse()) {
+      if (!urlIds.includes(id)) {
+        void getSheetById(id)?.close("history");
+      }
+    }
+
+    openUrlSheets(urlIds);
+  };
+
+  const handleRegistryChange = (change: SheetRegistryChange) => {
+    if (change.type !== "register") {
+      scheduleUrlWrite();
+    } else if (pendingUrlIds.includes(change.id)) {
+      pendingUrlIds = pendingUrlIds.filter((id) => id !== change.id);
+      void getSheetById(change.id)?.open();
+    } else if (isRegisteredSheetOpen(change.id)) {
+      scheduleUrlWrite();
+    }
+  };
+
+  const unsubscribe = subscribeSheetRegistry(handleRegistryChange);
+  window.addEventListener("popstate", applyUrlSheetIds);
+  window.addEventListener("hashchange", applyUrlSheetIds);
+  openUrlSheets(initialUrlIds);
+  scheduleUrlWrite();
+
+  // Stopping is per session, so a stale stop function cannot end a newer sync.
+  return () => {
+    if (isStopped) {
+      return;
+    }
+
+    isStopped = true;
+    isUrlSyncActive = false;
+    unsubscribe();
+    window.removeEventListener("popstate", applyUrlSheetIds);
+    window.removeEventListener("hashchange", applyUrlSheetIds);
+  };
+};
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { openActionSheet } from "../src/action-sheet";
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+const finishTransition = () => {
+  const transitionEnd = new Event("transitionend");
+  Object.defineProperty(transitionEnd, "propertyName", { value: "transform" });
+  document.querySelector(".vsheet-panel")?.dispatchEvent(transitionEnd);
+};
+
+const pressKey = (target: Element | null, key: string) => {
+  const event = new KeyboardEvent("keydown", {
+    key,
+    bubbles: true,
+    cancelable: true,
+  });
+  target?.dispatchEvent(event);
+  return event;
+};
+
+const requireElement = <T extends Element>(selector: string): T => {
+  const element = document.querySelector<T>(selector);
+  if (!element) {
+    throw new Error(`Expected to find element: ${selector}`);
+  }
+
+  return element;
+};
+
+const openShareSheet = () =>
+  openActionSheet({
+    title: "Photo",
+    message: "Choose what to do with this photo.",
+    actions: [
+      { key: "share", label: "Share" },
+      { key: "archive", label: "Archive", disabled: true },
+      { key: "delete", label: "Delete", destructive: true },
+    ],
+  });
+
+beforeEach(() => {
+  vi.spyOn(window, "requestAnimationFrame").mockImplementation((callback) => {
+    callback(0);
+    return 0;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("openActionSheet", () => {
+  it("renders title, message, actions and a separate cancel section", async () => {
+    void openShareSheet();
+    await flush();
+
+    const panel = requireElement<HTMLElement>(".vsheet-panel");
+    expect(panel.querySelector(".vsheet-title")?.textContent).toBe("Photo");
+    expect(panel.querySelector(".vsheet-description")?.textContent).toBe(
+      "Choose what to do with this photo.",
+    );
+    expect(requireElement<HTMLElement>(".vsheet-close").hidden).toBe(true);
+
+    const actionButtons = Array.from(
+      panel.querySelectorAll<HTMLButtonElement>(
+        ".vsheet-action-list .vsheet-action",
+      ),
+    );
+    expect(actionButtons.map((button) => button.textContent)).toEqual([
+      "Share",
+      "Archive",
+      "Delete",
+    ]);
+    expect(actionButtons.every((button) => button.type === "button")).toBe(
+      true,
+    );
+    expect(actionButtons[1].disabled).toBe(true);
+    expect(actionButtons[2].dataset.destructive).toBe("true");
+    expect(
+      panel.querySelector(".vsheet-action-sheet-cancel .vsheet-action-cancel")
+        ?.textContent,
+    ).toBe("Cancel");
+  });
+
+  it("resolves with the chosen action key", async () => {
+    const result = openShareSheet();
+    await flush();
+
+    requireElement<HTMLButtonElement>("[data-action-key='delete']").click();
+    await flush();
+    finishTransition();
+
+    await expect(result).resolves.toBe("delete");
+    expect(document.querySelector(".vsheet-root")).toBeNull();
+  });
+
+  it("resolves null for cancel and backdrop dismissal", async () => {
+    const cancelled = openShareSheet();
+    await flush();
+    requireElement<HTMLButtonElement>(".vsheet-action-cancel").click();
+    await expect(cancelled).resolves.toBeNull();
+    finishTransition();
+
+    const dismissed = openShareSheet();
+    await flush();
+    requireElement<HTMLButtonElement>(".vsheet-backdrop").click();
+    await expect(dismissed).resolves.toBeNull();
+  });
+
+  it("uses a custom cancel label", async () => {
+    void openActionSheet({
+      actions: [{ key: "a", label: "A" }],
+      cancelLabel: "Not now",
+    });
+    await flush();
+
+    expect(requireElement(".vsheet-action-cancel").textContent).toBe("Not now");
+  });
+
+  it("moves focus between enabled actions and cancel with arrow keys", async () => {
+    void openShareSheet();
+    await flush();
+
+    const share = requireElement<HTMLButtonElement>(
+      "[data-action-key='share']",
+    );
+    const remove = requireElement<HTMLButtonElement>(
+      "[data-action-key='delete']",
+    );
+    const cancel = requireElement<HTMLButtonElement>(".vsheet-action-cancel");
+    expect(document.activeElement).toBe(share);
+
+    const event = pressKey(share, "ArrowDown");
+    expect(event.defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(remove);
+
+    pressKey(remove, "ArrowDown");
+    expect(document.activeElement).toBe(cancel);
+
+    pressKey(cancel, "ArrowDown");
+    expect(document.activeElement).toBe(share);
+
+    pressKey(share, "ArrowUp");
+    expect(document.activeElement).toBe(cancel);
+
+    pressKey(cancel, "Home");
+    expect(document.activeElement).toBe(share);
+
+    pressKey(share, "End");
+    expect(document.activeElement).toBe(cancel);
+
+    expect(pressKey(cancel, "a").defaultPrevented).toBe(false);
+  });
+
+  it("rejects empty actions and duplicate keys", () => {
+    expect(() => openActionSheet({ actions: [] })).toThrow(
+      /`actions` must include at least one action/,
+    );
+    expect(() =>
+      openActionSheet({
+        actions: [
+          { key: "a", label: "A" },
+          { key: "a", label: "Again" },
+        ],
+      }),
+    ).toThrow(/duplicate action key "a"/);
+    expect(document.querySelector(".vsheet-root")).toBeNull();
+  });
+});
@@ -0,0 +1,263 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { alertSheet, confirmSheet, promptSheet } from "../src/dialog-sheets";
+import { sheetStack } from "../src/sheet-stack";
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+const finishTransition = () => {
+  const transitionEnd = new Event("transitionend");
+  Object.defineProperty(transitionEnd, "propertyName", { value: "transform" });
+  document.querySelector(".vsheet-panel")?.dispatchEvent(transitionEnd);
+};
+
+const dispatchPointerEvent = (
+  target: EventTarget,
+  type: string,
+  clientY: number,
+) => {
+  const event = new Event(type, {
+    bubbles: true,
+    cancelable: true,
+  }) as PointerEvent;
+  const properties = {
+    pointerId: 1,
+    pointerType: "touch",
+    isPrimary: true,
+    button: 0,
+    clientX: 0,
+    clientY,
+    timeStamp: 0,
+  };
+  for (const [key, value] of Object.entries(properties)) {
+    Object.defineProperty(event, key, { configurable: true, value });
+  }
+  target.dispatchEvent(event);
+};
+
+const requireElement = <T extends Element>(selector: string): T => {
+  const element = document.querySelector<T>(selector);
+  if (!element) {
+    throw new Error(`Expected to find element: ${selector}`);
+  }
+
+  return element;
+};
+
+// Every non-confirming way a preset sheet can close.
+const DISMISSALS: Array<[string, () => void]> = [
+  [
+    "cancel",
+    () => requireElement<HTMLElement>(".vsheet-dialog-cancel").click(),
+  ],
+  ["backdrop", () => requireElement<HTMLElement>(".vsheet-backdrop").click()],
+  [
+    "escape",
+    () =>
+      document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" })),
+  ],
+  ["close-button", () => requireElement<HTMLElement>(".vsheet-close").click()],
+  [
+    "drag",
+    () => {
+      const panel = requireElement<HTMLElement>(".vsheet-panel");
+      dispatchPointerEvent(panel, "pointerdown", 100);
+      dispatchPointerEvent(panel, "pointermove", 400);
+      dispatchPointerEvent(panel, "pointerup", 400);
+    },
+  ],
+];
+
+beforeEach(() => {
+  vi.spyOn(window, "requestAnimationFrame").mockImplementation((callback) => {
+    callback(0);
+    return 0;
+  });
+});
+
+// Sheets left open keep focus-scroll timers alive past the test environment.
+afterEach(() => {
+  for (
+    let sheet = sheetStack.getTopSheet();
+    sheet;
+    sheet = sheetStack.getTopSheet()
+  ) {
+    sheet.destroy();
+  }
+  // Settle closing sheets too, so `destroyOnClose` clears their timers.
+  for (const panel of Array.from(document.querySelectorAll(".vsheet-panel"))) {
+    const transitionEnd = new Event("transitionend");
+    Object.defineProperty(transitionEnd, "propertyName", {
+      value: "transform",
+    });
+    panel.dispatchEvent(transitionEnd);
+  }
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("confirmSheet", () => {
+  it("renders title, message and labelled buttons without a close button", async () => {
+    void confirmSheet({
+      title: "Delete draft?",
+      message: "This cannot be undone.",
+      confirmLabel: "Delete",
+      destructive: true,
+    });
+    await flush();
+
+    expect(requireElement(".vsheet-title").textContent).toBe("Delete draft?");
+    expect(requireElement(".vsheet-description").textContent).toBe(
+      "This cannot be undone.",
+    );
+    expect(requireElement<HTMLElement>(".vsheet-close").hidden).toBe(true);
+    const confirmButton = requireElement<HTMLButtonElement>(
+      ".vsheet-dialog-confirm",
+    );
+    expect(confirmButton.textContent).toBe("Delete");
+    expect(confirmButton.dataset.destructive).toBe("true");
+    expect(document.activeElement).toBe(
+      requireElement(".vsheet-dialog-cancel"),
+    );
+  });
+
+  it("resolves true for the confirm button", async () => {
+    const result = confirmSheet({ title: "Continue?" });
+    await flush();
+
+    requireElement<HTMLButtonElement>(".vsheet-dialog-confirm").click();
+    await flush();
+    finishTransition();
+
+    await expect(result).resolves.toBe(true);
+    expect(document.querySelector(".vsheet-root")).toBeNull();
+  });
+
+  it.each(DISMISSALS)("resolves false when closed via %s", async (_, close) => {
+    const result = confirmSheet({ title: "Continue?", showCloseButton: true });
+    await flush();
+
+    close();
+
+    await expect(result).resolves.toBe(false);
+  });
+});
+
+describe("alertSheet", () => {
+  it("resolves for the OK button with a custom label", async () => {
+    const result = alertSheet({ title: "Saved", okLabel: "Got it" });
+    await flush();
+
+    const okButton = requireElement<HTMLButtonElement>(
+      ".vsheet-dialog-confirm",
+    );
+    expect(okButton.textContent).toBe("Got it");
+    okButton.click();
+
+    await expect(result).resolves.toBeUndefined();
+  });
+
+  it.each(
+    DISMISSALS.filter(([name]) => name !== "cancel"),
+  )("resolves when closed via %s", async (_, close) => {
+    const result = alertSheet({ title: "Saved", showCloseButton: true });
+    await flush();
+
+    close();
+
+    await expect(result).resolves.toBeUndefined();
+  });
+});
+
+describe("promptSheet", () => {
+  it("renders a labelled input with the default value", async () => {
+    void promptSheet({
+      title: "Rename",
+      label: "File name",
+      defaultValue: "notes.txt",
+      placeholder: "Untitled",
+      inputType: "url",
+    });
+    await flush();
+
+    const promptInput = requireElement<HTMLInputElement>(
+      ".vsheet-prompt-input",
+    );
+    expect(promptInput.value).toBe("notes.txt");
+    expect(promptInput.placeholder).toBe("Untitled");
+    expect(promptInput.type).toBe("url");
+    expect(promptInput.closest("label")?.textContent).toBe("File name");
+    expect(
+      document.querySelector(".vsheet-dialog-footer .vsheet-dialog-confirm"),
+    ).not.toBeNull();
+  });
+
+  it("falls back to the title as the input's accessible name", async () => {
+    void promptSheet({ title: "Rename" });
+    await flush();
+
+    expect(
+      requireElement(".vsheet-prompt-input").getAttribute("aria-label"),
+    ).toBe("Rename");
+  });
+
+  it("focuses the input only after the enter transition finishes", async () => {
+    const onAfterOpen = vi.fn();
+    void promptSheet({ title: "Rename", defaultValue: "draft", onAfterOpen });
+    await flush();
+
+    const promptInput = requireElement<HTMLInputElement>(
+      ".vsheet-prompt-input",
+    );
+    expect(document.activeElement).not.toBe(promptInput);
+
+    finishTransition();
+
+    expect(document.activeElement).toBe(promptInput);
+    expect(promptInput.selectionStart).toBe(0);
+    expect(promptInput.selectionEnd).toBe(5);
+    expect(onAfterOpen).toHaveBeenCalledWith("api");
+  });
+
+  it("resolves with the input value on confirm", async () => {
+    const result = promptSheet({ title: "Rename" });
+    await flush();
+
+    const promptInput = requireElement<HTMLInputElement>(
+      ".vsheet-prompt-input",
+    );
+    promptInput.value = "report.pdf";
+    requireElement<HTMLButtonElement>(".vsheet-dialog-confirm").click();
+
+    await expect(result).resolves.toBe("report.pdf");
+  });
+
+  it("resolves with the input value on Enter", async () => {
+    const result = promptSheet({ title: "Rename", defaultValue: "a" });
+    await flush();
+
+    const promptInput = requireElement<HTMLInputElement>(
+      ".vsheet-prompt-input",
+    );
+    const event = new KeyboardEvent("keydown", {
+      key: "Enter",
+      bubbles: true,
+      cancelable: true,
+    });
+    promptInput.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+    await expect(result).resolves.toBe("a");
+  });
+
+  it.each(DISMISSALS)("resolves null when closed via %s", async (_, close) => {
+    const result = promptSheet({ title: "Rename", showCloseButton: true });
+    await flush();
+
+    close();
+
+    await expect(result).resolves.toBeNull();
+  });
+});
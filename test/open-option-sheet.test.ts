@@ -8,7 +8,9 @@ const flush = async () => {
 
 const finishCloseAnimation = () => {
   const panel = document.querySelector(".vsheet-panel");
-  panel?.dispatchEvent(new Event("transitionend"));
+  const transitionEnd = new Event("transitionend");
+  Object.defineProperty(transitionEnd, "propertyName", { value: "transform" });
+  panel?.dispatchEvent(transitionEnd);
 };
 
 const requireElement = <T extends Element>(selector: string): T => {
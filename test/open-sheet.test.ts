@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { openSheet } from "../src/open-sheet";
+import type { OpenSheetContext, SheetReason } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+const finishTransition = () => {
+  const transitionEnd = new Event("transitionend");
+  Object.defineProperty(transitionEnd, "propertyName", { value: "transform" });
+  document.querySelector(".vsheet-panel")?.dispatchEvent(transitionEnd);
+};
+
+let frameCallbacks: FrameRequestCallback[] = [];
+
+const runFrame = () => {
+  for (const callback of frameCallbacks.splice(0)) {
+    callback(0);
+  }
+};
+
+beforeEach(() => {
+  frameCallbacks = [];
+  vi.spyOn(window, "requestAnimationFrame").mockImplementation((callback) => {
+    frameCallbacks.push(callback);
+    return frameCallbacks.length;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+const openTestSheet = <T>(
+  options: Parameters<typeof openSheet>[0] = {},
+): { result: Promise<T | null>; ctx: OpenSheetContext<T> } => {
+  let capturedCtx: OpenSheetContext<T> | null = null;
+  const result = openSheet<T>(options, (ctx) => {
+    capturedCtx = ctx;
+    return "body";
+  });
+  if (!capturedCtx) {
+    throw new Error("Expected render callback to run synchronously.");
+  }
+
+  return { result, ctx: capturedCtx };
+};
+
+describe("openSheet", () => {
+  it("opens on the next frame", async () => {
+    const { ctx } = openTestSheet<string>();
+    expect(ctx.sheet.element.dataset.state).toBe("closed");
+
+    runFrame();
+    await flush();
+
+    expect(ctx.sheet.element.dataset.state).toBe("open");
+  });
+
+  it("resolves with the value and destroys after the exit transition", async () => {
+    const { result, ctx } = openTestSheet<string>();
+    runFrame();
+    await flush();
+
+    ctx.resolve("picked");
+    await flush();
+    expect(ctx.sheet.element.isConnected).toBe(true);
+    finishTransition();
+
+    await expect(result).resolves.toBe("picked");
+    expect(ctx.sheet.element.isConnected).toBe(false);
+  });
+
+  it.each<[string, () => void]>([
+    [
+      "backdrop",
+      () => document.querySelector<HTMLElement>(".vsheet-backdrop")?.click(),
+    ],
+    [
+      "escape",
+      () =>
+        document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" })),
+    ],
+    [
+      "close button",
+      () => document.querySelector<HTMLElement>(".vsheet-close")?.click(),
+    ],
+  ])("resolves null when dismissed via %s", async (_, dismiss) => {
+    const { result } = openTestSheet<string>();
+    runFrame();
+    await flush();
+
+    dismiss();
+    await flush();
+    finishTransition();
+
+    await expect(result).resolves.toBeNull();
+    expect(document.querySelector(".vsheet-root")).toBeNull();
+  });
+
+  it("resolves null for ctx.dismiss() and bare API closes", async () => {
+    const dismissed = openTestSheet<string>();
+    runFrame();
+    await flush();
+    dismissed.ctx.dismiss();
+    await flush();
+    await expect(dismissed.result).resolves.toBeNull();
+
+    const closed = openTestSheet<string>();
+    runFrame();
+    await flush();
+    void closed.ctx.sheet.close();
+    await flush();
+    await expect(closed.result).resolves.toBeNull();
+  });
+
+  it("keeps the first settled value", async () => {
+    const { result, ctx } = openTestSheet<string>();
+    runFrame();
+    await flush();
+
+    ctx.resolve("first");
+    document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+    ctx.resolve("second");
+    await flush();
+
+    await expect(result).resolves.toBe("first");
+  });
+
+  it("stays pending while a close guard vetoes resolve()", async () => {
+    let allowClose = false;
+    const { result, ctx } = openTestSheet<string>({
+      beforeClose: () => allowClose,
+    });
+    const settled = vi.fn();
+    void result.then(settled);
+    runFrame();
+    await flush();
+
+    ctx.resolve("blocked");
+    await flush();
+    expect(settled).not.toHaveBeenCalled();
+    expect(ctx.sheet.element.dataset.state).toBe("open");
+
+    allowClose = true;
+    ctx.resolve("allowed");
+    await flush();
+
+    await expect(result).resolves.toBe("allowed");
+  });
+
+  it("resolves null and cleans up when beforeOpen vetoes", async () => {
+    const { result, ctx } = openTestSheet<string>({
+      beforeOpen: () => false,
+    });
+    runFrame();
+
+    await expect(result).resolves.toBeNull();
+    await flush();
+    expect(ctx.sheet.element.isConnected).toBe(false);
+  });
+
+  it("forwards sheet options and chains onOpenChange", async () => {
+    const changes: Array<[boolean, SheetReason]> = [];
+    const { result, ctx } = openTestSheet<string>({
+      title: "Pick one",
+      onOpenChange: (open, reason) => changes.push([open, reason]),
+    });
+    runFrame();
+    await flush();
+
+    expect(ctx.sheet.element.querySelector(".vsheet-title")?.textContent).toBe(
+      "Pick one",
+    );
+    ctx.resolve("value");
+    await flush();
+
+    await expect(result).resolves.toBe("value");
+    expect(changes).toEqual([
+      [true, "api"],
+      [false, "api"],
+    ]);
+  });
+
+  it("renders sections returned from the render callback", () => {
+    void openSheet<string>({}, () => [
+      { content: "Header", className: "picker-header" },
+      { content: "List", scroll: true },
+    ]);
+
+    const sections = document.querySelectorAll<HTMLElement>(".vsheet-section");
+    expect(sections).toHaveLength(2);
+    expect(sections[0].classList.contains("picker-header")).toBe(true);
+    expect(sections[1].dataset.vsheetScroll).toBe("true");
+  });
+
+  it("rejects when ctx.sheet is read during render", async () => {
+    await expect(
+      openSheet<string>({}, (ctx) => {
+        void ctx.sheet;
+        return "body";
+      }),
+    ).rejects.toThrow(/ctx\.sheet/);
+  });
+});
@@ -0,0 +1,319 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { openPickerSheet } from "../src/picker-sheet";
+import { sheetStack } from "../src/sheet-stack";
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+const pressKey = (target: Element, key: string) => {
+  const event = new KeyboardEvent("keydown", {
+    key,
+    bubbles: true,
+    cancelable: true,
+  });
+  target.dispatchEvent(event);
+  return event;
+};
+
+const typeQuery = (value: string) => {
+  const searchInput = requireElement<HTMLInputElement>(
+    ".vsheet-picker-search-input",
+  );
+  searchInput.value = value;
+  searchInput.dispatchEvent(new Event("input", { bubbles: true }));
+};
+
+const requireElement = <T extends Element>(selector: string): T => {
+  const element = document.querySelector<T>(selector);
+  if (!element) {
+    throw new Error(`Expected to find element: ${selector}`);
+  }
+
+  return element;
+};
+
+const getOptions = () =>
+  Array.from(document.querySelectorAll<HTMLElement>("[role='option']"));
+
+const getOptionLabels = () => getOptions().map((option) => option.textContent);
+
+const FRUITS = ["Apple", "Banana", "Cherry", "Grape", "Pineapple"];
+
+beforeEach(() => {
+  vi.spyOn(window, "requestAnimationFrame").mockImplementation((callback) => {
+    callback(0);
+    return 0;
+  });
+});
+
+afterEach(() => {
+  for (
+    let sheet = sheetStack.getTopSheet();
+    sheet;
+    sheet = sheetStack.getTopSheet()
+  ) {
+    sheet.destroy();
+  }
+  // Settle closing sheets too, so `destroyOnClose` clears their timers.
+  for (const panel of Array.from(document.querySelectorAll(".vsheet-panel"))) {
+    const transitionEnd = new Event("transitionend");
+    Object.defineProperty(transitionEnd, "propertyName", {
+      value: "transform",
+    });
+    panel.dispatchEvent(transitionEnd);
+  }
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("openPickerSheet", () => {
+  it("renders listbox semantics with a fixed search section and Done footer", async () => {
+    void openPickerSheet({ title: "Fruit", items: FRUITS, searchable: true });
+    await flush();
+
+    const sections = Array.from(
+      document.querySelectorAll<HTMLElement>(".vsheet-section"),
+    );
+    expect(sections.map((section) => section.dataset.vsheetScroll)).toEqual([
+      "false",
+      "true",
+      "false",
+    ]);
+    expect(sections[0].querySelector(".vsheet-picker-search-input")).not.toBe(
+      null,
+    );
+    expect(
+      sections[2].querySelector(".vsheet-dialog-confirm")?.textContent,
+    ).toBe("Done");
+
+    const listbox = requireElement<HTMLElement>("[role='listbox']");
+    expect(listbox.getAttribute("aria-label")).toBe("Fruit");
+    expect(listbox.hasAttribute("aria-multiselectable")).toBe(false);
+    expect(getOptionLabels()).toEqual(FRUITS);
+    expect(
+      getOptions().every(
+        (option) => option.getAttribute("aria-selected") === "false",
+      ),
+    ).toBe(true);
+    expect(document.activeElement).toBe(listbox);
+  });
+
+  it("omits the search section unless searchable", async () => {
+    void openPickerSheet({ items: FRUITS });
+    await flush();
+
+    expect(document.querySelector(".vsheet-picker-search-input")).toBeNull();
+  });
+
+  it("resolves the selected item in single mode", async () => {
+    const result = openPickerSheet({ items: FRUITS });
+    await flush();
+
+    const done = requireElement<HTMLButtonElement>(".vsheet-dialog-confirm");
+    expect(done.disabled).toBe(true);
+
+    getOptions()[1].click();
+    getOptions()[2].click();
+    expect(
+      getOptions().map((option) => option.getAttribute("aria-selected")),
+    ).toEqual(["false", "false", "true", "false", "false"]);
+    expect(done.disabled).toBe(false);
+
+    done.click();
+    await expect(result).resolves.toBe("Cherry");
+  });
+
+  it("resolves an array in item order in multiple mode", async () => {
+    const result = openPickerSheet({
+      items: FRUITS,
+      multiple: true,
+      initialValue: ["Grape"],
+    });
+    await flush();
+
+    expect(
+      requireElement("[role='listbox']").getAttribute("aria-multiselectable"),
+    ).toBe("true");
+    getOptions()[0].click();
+    getOptions()[4].click();
+    getOptions()[4].click();
+
+    requireElement<HTMLButtonElement>(".vsheet-dialog-confirm").click();
+    await expect(result).resolves.toEqual(["Apple", "Grape"]);
+  });
+
+  it("matches initialValue through itemKey", async () => {
+    const users = [
+      { id: 1, name: "Ada" },
+      { id: 2, name: "Linus" },
+    ];
+    const result = openPickerSheet({
+      items: users,
+      itemKey: (user) => user.id,
+      itemLabel: (user) => user.name,
+      initialValue: { id: 2, name: "Linus" },
+    });
+    await flush();
+
+    expect(getOptionLabels()).toEqual(["Ada", "Linus"]);
+    expect(getOptions()[1].getAttribute("aria-selected")).toBe("true");
+    requireElement<HTMLButtonElement>(".vsheet-dialog-confirm").click();
+    await expect(result).resolves.toBe(users[1]);
+  });
+
+  it("filters items case-insensitively and shows an empty state", async () => {
+    void openPickerSheet({ items: FRUITS, searchable: true });
+    await flush();
+
+    typeQuery("APPLE");
+    expect(getOptionLabels()).toEqual(["Apple", "Pineapple"]);
+    expect(requireElement<HTMLElement>(".vsheet-picker-empty").hidden).toBe(
+      true,
+    );
+
+    typeQuery("kiwi");
+    expect(getOptions()).toHaveLength(0);
+    expect(requireElement<HTMLElement>(".vsheet-picker-empty").hidden).toBe(
+      false,
+    );
+
+    typeQuery("");
+    expect(getOptionLabels()).toEqual(FRUITS);
+  });
+
+  it("keeps selections that are filtered out of view", async () => {
+    const result = openPickerSheet({
+      items: FRUITS,
+      multiple: true,
+      searchable: true,
+    });
+    await flush();
+
+    getOptions()[0].click();
+    typeQuery("berry");
+    typeQuery("cher");
+    getOptions()[0].click();
+
+    requireElement<HTMLButtonElement>(".vsheet-dialog-confirm").click();
+    await expect(result).resolves.toEqual(["Apple", "Cherry"]);
+  });
+
+  it("navigates options with the keyboard via aria-activedescendant", async () => {
+    const result = openPickerSheet({ items: FRUITS, initialValue: "Banana" });
+    await flush();
+
+    const listbox = requireElement<HTMLElement>("[role='listbox']");
+    const activeId = () => listbox.getAttribute("aria-activedescendant");
+    const options = getOptions();
+    expect(activeId()).toBe(options[1].id);
+
+    expect(pressKey(listbox, "ArrowDown").defaultPrevented).toBe(true);
+    expect(activeId()).toBe(options[2].id);
+    expect(options[2].dataset.active).toBe("true");
+    expect(options[1].dataset.active).toBeUndefined();
+
+    pressKey(listbox, "End");
+    pressKey(listbox, "ArrowDown");
+    expect(activeId()).toBe(options[4].id);
+
+    pressKey(listbox, "Home");
+    pressKey(listbox, "ArrowUp");
+    expect(activeId()).toBe(options[0].id);
+
+    pressKey(listbox, " ");
+    expect(options[0].getAttribute("aria-selected")).toBe("true");
+    expect(options[1].getAttribute("aria-selected")).toBe("false");
+
+    requireElement<HTMLButtonElement>(".vsheet-dialog-confirm").click();
+    await expect(result).resolves.toBe("Apple");
+  });
+
+  it("moves from the search field into the list with ArrowDown", async () => {
+    void openPickerSheet({ items: FRUITS, searchable: true });
+    await flush();
+
+    typeQuery("gr");
+    const searchInput = requireElement<HTMLInputElement>(
+      ".vsheet-picker-search-input",
+    );
+    pressKey(searchInput, "ArrowDown");
+
+    const listbox = requireElement<HTMLElement>("[role='listbox']");
+    expect(document.activeElement).toBe(listbox);
+    expect(listbox.getAttribute("aria-activedescendant")).toBe(
+      getOptions()[0].id,
+    );
+    expect(getOptions()[0].textContent).toBe("Grape");
+  });
+
+  it("renders a bounded window of large lists", async () => {
+    const items = Array.from({ length: 5000 }, (_, index) => `Item ${index}`);
+    const result = openPickerSheet({ items, searchable: true });
+    await flush();
+
+    expect(getOptions()).toHaveLength(100);
+
+    const listbox = requireElement<HTMLElement>("[role='listbox']");
+    pressKey(listbox, "End");
+    const windowOptions = getOptions();
+    expect(windowOptions.length).toBeLessThanOrEqual(300);
+    const lastOption = windowOptions[windowOptions.length - 1];
+    expect(lastOption.textContent).toBe("Item 4999");
+    expect(lastOption.dataset.active).toBe("true");
+    expect(lastOption.getAttribute("aria-posinset")).toBe("5000");
+    expect(lastOption.getAttribute("aria-setsize")).toBe("5000");
+    pressKey(listbox, "Enter");
+
+    // jsdom has no layout, so place the list as if scrolled to row 3000.
+    const scrollSection = requireElement<HTMLElement>(".vsheet-content");
+    const topSpacer = requireElement<HTMLElement>(".vsheet-picker-spacer");
+    vi.spyOn(topSpacer, "getBoundingClientRect").mockReturnValue(
+      new DOMRect(0, -3000 * 44, 0, 0),
+    );
+    scrollSection.dispatchEvent(new Event("scroll"));
+    const scrolledLabels = getOptions().map((option) => option.textContent);
+    expect(scrolledLabels.length).toBeLessThanOrEqual(300);
+    expect(scrolledLabels).toContain("Item 3000");
+    expect(scrolledLabels).not.toContain("Item 0");
+    expect(topSpacer.style.height).not.toBe("0px");
+
+    typeQuery("item 49");
+    expect(getOptions()).toHaveLength(100);
+
+    vi.spyOn(topSpacer, "getBoundingClientRect").mockReturnValue(
+      new DOMRect(0, -80 * 44, 0, 0),
+    );
+    scrollSection.dispatchEvent(new Event("scroll"));
+    expect(getOptions()).toHaveLength(111);
+
+    requireElement<HTMLButtonElement>(".vsheet-dialog-confirm").click();
+    await expect(result).resolves.toBe("Item 4999");
+  });
+
+  it.each<[string, () => void]>([
+    ["backdrop", () => requireElement<HTMLElement>(".vsheet-backdrop").click()],
+    [
+      "escape",
+      () =>
+        document.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" })),
+    ],
+  ])("resolves null when dismissed via %s", async (_, dismiss) => {
+    const result = openPickerSheet({ items: FRUITS, initialValue: "Apple" });
+    await flush();
+
+    dismiss();
+    await expect(result).resolves.toBeNull();
+  });
+
+  it("rejects a non-array initialValue in multiple mode", () => {
+    expect(() =>
+      openPickerSheet({
+        items: FRUITS,
+        multiple: true,
+        initialValue: "Apple" as unknown as string[],
+      }),
+    ).toThrow(/`initialValue` must be an array/);
+  });
+});
@@ -0,0 +1,132 @@
+import van from "vanjs-core";
+import { describe, expect, it } from "vitest";
+import { createSheet } from "../src/create-sheet";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const getPanel = (sheet: ReturnType<typeof createSheet>) =>
+  sheet.element.querySelector(".vsheet-panel") as HTMLElement;
+
+describe("createSheet accessible name and description", () => {
+  it("renders no heading and no ARIA name wiring by default", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+    });
+
+    await flush();
+
+    const panel = getPanel(sheet);
+    expect(sheet.element.querySelector(".vsheet-heading")).toBeNull();
+    expect(panel.hasAttribute("aria-labelledby")).toBe(false);
+    expect(panel.hasAttribute("aria-describedby")).toBe(false);
+    expect(panel.hasAttribute("aria-label")).toBe(false);
+
+    sheet.destroy();
+  });
+
+  it("renders title and description in the header and wires generated ids", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      title: "Filters",
+      description: () => "Refine the results",
+    });
+
+    await flush();
+
+    const panel = getPanel(sheet);
+    const title = sheet.element.querySelector(".vsheet-header .vsheet-title");
+    const description = sheet.element.querySelector(
+      ".vsheet-header .vsheet-description",
+    );
+
+    expect(title?.tagName).toBe("H2");
+    expect(title?.textContent).toBe("Filters");
+    expect(description?.textContent).toBe("Refine the results");
+    expect(title?.id).toMatch(/^vsheet-\d+-title$/);
+    expect(panel.getAttribute("aria-labelledby")).toBe(title?.id);
+    expect(panel.getAttribute("aria-describedby")).toBe(description?.id);
+
+    sheet.destroy();
+  });
+
+  it("generates unique ids per sheet", async () => {
+    const first = createSheet({
+      isOpen: van.state(false),
+      content: "first",
+      title: "First",
+    });
+    const second = createSheet({
+      isOpen: van.state(false),
+      content: "second",
+      title: "Second",
+    });
+
+    expect(getPanel(first).getAttribute("aria-labelledby")).not.toBe(
+      getPanel(second).getAttribute("aria-labelledby"),
+    );
+
+    first.destroy();
+    second.destroy();
+  });
+
+  it("prefers explicit aria options over generated ids", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      title: "Filters",
+      description: "Refine the results",
+      ariaLabelledBy: "external-title",
+      ariaDescribedBy: "external-description",
+    });
+
+    await flush();
+
+    const panel = getPanel(sheet);
+    expect(panel.getAttribute("aria-labelledby")).toBe("external-title");
+    expect(panel.getAttribute("aria-describedby")).toBe("external-description");
+    expect(sheet.element.querySelector(".vsheet-title")).not.toBeNull();
+
+    sheet.destroy();
+  });
+
+  it("names the panel by ariaLabel instead of a visible title", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      title: "Filters",
+      ariaLabel: "Search filters",
+    });
+
+    await flush();
+
+    const panel = getPanel(sheet);
+    expect(panel.getAttribute("aria-label")).toBe("Search filters");
+    expect(panel.hasAttribute("aria-labelledby")).toBe(false);
+    expect(sheet.element.querySelector(".vsheet-title")?.textContent).toBe(
+      "Filters",
+    );
+
+    sheet.destroy();
+  });
+
+  it("applies ariaLabel without rendering a heading", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      ariaLabel: "Share options",
+    });
+
+    await flush();
+
+    const panel = getPanel(sheet);
+    expect(panel.getAttribute("aria-label")).toBe("Share options");
+    expect(panel.hasAttribute("aria-labelledby")).toBe(false);
+    expect(sheet.element.querySelector(".vsheet-heading")).toBeNull();
+
+    sheet.destroy();
+  });
+});
@@ -0,0 +1,201 @@
+import van from "vanjs-core";
+import { afterEach, describe, expect, it } from "vitest";
+import { createSheet } from "../src/create-sheet";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+const mountBackground = () => {
+  const main = document.createElement("main");
+  const aside = document.createElement("aside");
+  aside.setAttribute("aria-hidden", "false");
+  const banner = document.createElement("header");
+  banner.setAttribute("inert", "");
+  document.body.append(main, aside, banner);
+  return { main, aside, banner };
+};
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  document.body.innerHTML = "";
+});
+
+describe("createSheet background inert", () => {
+  it("leaves background content untouched by default", async () => {
+    const { main } = mountBackground();
+    const sheet = createSheet({ isOpen: van.state(true), content: "content" });
+    mountedSheets.push(sheet);
+    await flush();
+
+    expect(main.hasAttribute("inert")).toBe(false);
+    expect(main.hasAttribute("aria-hidden")).toBe(false);
+  });
+
+  it("marks siblings inert while open and restores original attributes on close", async () => {
+    const { main, aside, banner } = mountBackground();
+    const isOpen = van.state(false);
+    const sheet = createSheet({
+      isOpen,
+      content: "content",
+      inertBackground: true,
+    });
+    mountedSheets.push(sheet);
+
+    expect(main.hasAttribute("inert")).toBe(false);
+
+    isOpen.val = true;
+    await flush();
+
+    for (const element of [main, aside, banner]) {
+      expect(element.hasAttribute("inert")).toBe(true);
+      expect(element.getAttribute("aria-hidden")).toBe("true");
+    }
+    expect(sheet.element.hasAttribute("inert")).toBe(false);
+
+    isOpen.val = false;
+    await flush();
+
+    expect(main.hasAttribute("inert")).toBe(false);
+    expect(main.hasAttribute("aria-hidden")).toBe(false);
+    expect(aside.hasAttribute("inert")).toBe(false);
+    expect(aside.getAttribute("aria-hidden")).toBe("false");
+    expect(banner.getAttribute("inert")).toBe("");
+    expect(banner.hasAttribute("aria-hidden")).toBe(false);
+  });
+
+  it("marks siblings of the mount target and its ancestors", async () => {
+    const { main } = mountBackground();
+    const container = document.createElement("div");
+    const sibling = document.createElement("p");
+    container.append(sibling);
+    main.append(container);
+
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      mountTo: container,
+      inertBackground: true,
+    });
+    mountedSheets.push(sheet);
+    await flush();
+
+    expect(sibling.hasAttribute("inert")).toBe(true);
+    expect(main.hasAttribute("inert")).toBe(false);
+    expect(document.querySelector("aside")?.hasAttribute("inert")).toBe(true);
+  });
+
+  it("makes lower stack layers inert and hands the lock to the top sheet", async () => {
+    const { main } = mountBackground();
+    const firstSheet = createSheet({
+      isOpen: van.state(true),
+      content: "first",
+      inertBackground: true,
+    });
+    mountedSheets.push(firstSheet);
+    await flush();
+
+    const secondOpen = van.state(false);
+    const secondSheet = createSheet({
+      isOpen: secondOpen,
+      content: "second",
+      inertBackground: true,
+    });
+    mountedSheets.push(secondSheet);
+    await flush();
+
+    secondOpen.val = true;
+    await flush();
+
+    expect(firstSheet.element.hasAttribute("inert")).toBe(true);
+    expect(secondSheet.element.hasAttribute("inert")).toBe(false);
+    expect(main.hasAttribute("inert")).toBe(true);
+
+    secondOpen.val = false;
+    await flush();
+
+    expect(firstSheet.element.hasAttribute("inert")).toBe(false);
+    expect(firstSheet.element.getAttribute("aria-hidden")).toBe("false");
+    expect(main.hasAttribute("inert")).toBe(true);
+
+    firstSheet.close();
+    await flush();
+
+    expect(main.hasAttribute("inert")).toBe(false);
+  });
+
+  it("keeps the background inert under a top sheet without the option", async () => {
+    const { main } = mountBackground();
+    const modalOpen = van.state(true);
+    const modalSheet = createSheet({
+      isOpen: modalOpen,
+      content: "modal",
+      inertBackground: true,
+    });
+    mountedSheets.push(modalSheet);
+    await flush();
+
+    const plainOpen = van.state(false);
+    const plainSheet = createSheet({ isOpen: plainOpen, content: "plain" });
+    mountedSheets.push(plainSheet);
+    plainOpen.val = true;
+    await flush();
+
+    expect(main.hasAttribute("inert")).toBe(true);
+    expect(main.getAttribute("aria-hidden")).toBe("true");
+    expect(modalSheet.element.hasAttribute("inert")).toBe(true);
+    expect(plainSheet.element.hasAttribute("inert")).toBe(false);
+
+    plainOpen.val = false;
+    await flush();
+
+    expect(main.hasAttribute("inert")).toBe(true);
+    expect(modalSheet.element.hasAttribute("inert")).toBe(false);
+
+    modalOpen.val = false;
+    await flush();
+
+    expect(main.hasAttribute("inert")).toBe(false);
+    expect(main.hasAttribute("aria-hidden")).toBe(false);
+  });
+
+  it("leaves the background alone when no open sheet asks for it", async () => {
+    const { main } = mountBackground();
+    const modalOpen = van.state(false);
+    const modalSheet = createSheet({
+      isOpen: modalOpen,
+      content: "modal",
+      inertBackground: true,
+    });
+    const plainSheet = createSheet({
+      isOpen: van.state(true),
+      content: "plain",
+    });
+    mountedSheets.push(modalSheet, plainSheet);
+    await flush();
+
+    expect(main.hasAttribute("inert")).toBe(false);
+  });
+
+  it("restores background attributes on destroy", async () => {
+    const { main, aside } = mountBackground();
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      inertBackground: true,
+    });
+    await flush();
+
+    expect(main.hasAttribute("inert")).toBe(true);
+
+    sheet.destroy();
+
+    expect(main.hasAttribute("inert")).toBe(false);
+    expect(main.hasAttribute("aria-hidden")).toBe(false);
+    expect(aside.getAttribute("aria-hidden")).toBe("false");
+  });
+});
@@ -7,26 +7,38 @@ const flush = async () => {
   await Promise.resolve();
 };
 
-type TouchPoint = {
-  identifier: number;
+type PointerPoint = {
+  pointerId?: number;
+  pointerType?: string;
   clientX?: number;
-  clientY: number;
+  clientY?: number;
+  timeStamp?: number;
 };
 
-const dispatchTouchEvent = (
+const dispatchPointerEvent = (
   target: EventTarget,
   type: string,
-  touches: TouchPoint[],
+  point: PointerPoint = {},
 ) => {
   const event = new Event(type, {
     bubbles: true,
     cancelable: true,
-  }) as TouchEvent;
-  Object.defineProperty(event, "touches", {
-    configurable: true,
-    value: touches.map((touch) => ({ clientX: 0, ...touch })),
-  });
+  }) as PointerEvent;
+  const properties = {
+    pointerId: 1,
+    pointerType: "touch",
+    isPrimary: true,
+    button: 0,
+    clientX: 0,
+    clientY: 0,
+    timeStamp: 0,
+    ...point,
+  };
+  for (const [key, value] of Object.entries(properties)) {
+    Object.defineProperty(event, key, { configurable: true, value });
+  }
   target.dispatchEvent(event);
+  return event;
 };
 
 describe("createSheet close icon behavior", () => {
@@ -222,12 +234,8 @@ describe("createSheet close icon behavior", () => {
       toJSON: () => ({}),
     } as DOMRect);
 
-    dispatchTouchEvent(panel as HTMLElement, "touchstart", [
-      { identifier: 1, clientY: 100 },
-    ]);
-    dispatchTouchEvent(panel as HTMLElement, "touchmove", [
-      { identifier: 1, clientY: 300 },
-    ]);
+    dispatchPointerEvent(panel as HTMLElement, "pointerdown", { clientY: 100 });
+    dispatchPointerEvent(panel as HTMLElement, "pointermove", { clientY: 300 });
 
     expect(
       Number(
@@ -235,7 +243,7 @@ describe("createSheet close icon behavior", () => {
       ),
     ).toBeCloseTo(0.5, 5);
 
-    dispatchTouchEvent(panel as HTMLElement, "touchend", []);
+    dispatchPointerEvent(panel as HTMLElement, "pointerup");
     await flush();
 
     expect(state.val).toBe(false);
@@ -259,16 +267,19 @@ describe("createSheet close icon behavior", () => {
 
     await flush();
 
-    dispatchTouchEvent(blockedZone, "touchstart", [
-      { identifier: 1, clientX: 100, clientY: 100 },
-    ]);
-    dispatchTouchEvent(blockedZone, "touchmove", [
-      { identifier: 1, clientX: 190, clientY: 110 },
-    ]);
-    dispatchTouchEvent(blockedZone, "touchmove", [
-      { identifier: 1, clientX: 190, clientY: 320 },
-    ]);
-    dispatchTouchEvent(blockedZone, "touchend", []);
+    dispatchPointerEvent(blockedZone, "pointerdown", {
+      clientX: 100,
+      clientY: 100,
+    });
+    dispatchPointerEvent(blockedZone, "pointermove", {
+      clientX: 190,
+      clientY: 110,
+    });
+    dispatchPointerEvent(blockedZone, "pointermove", {
+      clientX: 190,
+      clientY: 320,
+    });
+    dispatchPointerEvent(blockedZone, "pointerup");
     await flush();
 
     expect(state.val).toBe(true);
@@ -292,13 +303,9 @@ describe("createSheet close icon behavior", () => {
     const panel = sheet.element.querySelector<HTMLElement>(".vsheet-panel");
     expect(panel).not.toBeNull();
 
-    dispatchTouchEvent(panel as HTMLElement, "touchstart", [
-      { identifier: 1, clientY: 100 },
-    ]);
-    dispatchTouchEvent(panel as HTMLElement, "touchmove", [
-      { identifier: 1, clientY: 320 },
-    ]);
-    dispatchTouchEvent(panel as HTMLElement, "touchend", []);
+    dispatchPointerEvent(panel as HTMLElement, "pointerdown", { clientY: 100 });
+    dispatchPointerEvent(panel as HTMLElement, "pointermove", { clientY: 320 });
+    dispatchPointerEvent(panel as HTMLElement, "pointerup");
     await flush();
 
     expect(state.val).toBe(false);
@@ -320,16 +327,19 @@ describe("createSheet close icon behavior", () => {
 
     await flush();
 
-    dispatchTouchEvent(customBlockedZone, "touchstart", [
-      { identifier: 1, clientX: 110, clientY: 100 },
-    ]);
-    dispatchTouchEvent(customBlockedZone, "touchmove", [
-      { identifier: 1, clientX: 210, clientY: 108 },
-    ]);
-    dispatchTouchEvent(customBlockedZone, "touchmove", [
-      { identifier: 1, clientX: 210, clientY: 320 },
-    ]);
-    dispatchTouchEvent(customBlockedZone, "touchend", []);
+    dispatchPointerEvent(customBlockedZone, "pointerdown", {
+      clientX: 110,
+      clientY: 100,
+    });
+    dispatchPointerEvent(customBlockedZone, "pointermove", {
+      clientX: 210,
+      clientY: 108,
+    });
+    dispatchPointerEvent(customBlockedZone, "pointermove", {
+      clientX: 210,
+      clientY: 320,
+    });
+    dispatchPointerEvent(customBlockedZone, "pointerup");
     await flush();
 
     expect(state.val).toBe(true);
@@ -350,13 +360,15 @@ describe("createSheet close icon behavior", () => {
 
     await flush();
 
-    dispatchTouchEvent(blockedZone, "touchstart", [
-      { identifier: 1, clientX: 120, clientY: 100 },
-    ]);
-    dispatchTouchEvent(blockedZone, "touchmove", [
-      { identifier: 1, clientX: 124, clientY: 320 },
-    ]);
-    dispatchTouchEvent(blockedZone, "touchend", []);
+    dispatchPointerEvent(blockedZone, "pointerdown", {
+      clientX: 120,
+      clientY: 100,
+    });
+    dispatchPointerEvent(blockedZone, "pointermove", {
+      clientX: 124,
+      clientY: 320,
+    });
+    dispatchPointerEvent(blockedZone, "pointerup");
     await flush();
 
     expect(state.val).toBe(false);
@@ -379,13 +391,9 @@ describe("createSheet close icon behavior", () => {
 
     await flush();
 
-    dispatchTouchEvent(fixedTop, "touchstart", [
-      { identifier: 1, clientY: 100 },
-    ]);
-    dispatchTouchEvent(fixedTop, "touchmove", [
-      { identifier: 1, clientY: 320 },
-    ]);
-    dispatchTouchEvent(fixedTop, "touchend", []);
+    dispatchPointerEvent(fixedTop, "pointerdown", { clientY: 100 });
+    dispatchPointerEvent(fixedTop, "pointermove", { clientY: 320 });
+    dispatchPointerEvent(fixedTop, "pointerup");
     await flush();
 
     expect(state.val).toBe(false);
@@ -0,0 +1,238 @@
+import van from "vanjs-core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createSheet, createSheetFactory } from "../src/create-sheet";
+import {
+  configureSheetDefaults,
+  getSheetDefaults,
+  setSheetDefaults,
+} from "../src/sheet-defaults";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const originalInnerHeight = Object.getOwnPropertyDescriptor(
+  window,
+  "innerHeight",
+);
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+const openStackedPair = async (
+  lowerOptions: Partial<Parameters<typeof createSheet>[0]> = {},
+) => {
+  const lower = createSheet({
+    isOpen: van.state(true),
+    content: "lower",
+    ...lowerOptions,
+  });
+  await flush();
+  const upper = createSheet({ isOpen: van.state(false), content: "upper" });
+  mountedSheets.push(lower, upper);
+  upper.open();
+  await flush();
+  return lower;
+};
+
+beforeEach(() => {
+  Object.defineProperty(window, "innerHeight", {
+    configurable: true,
+    writable: true,
+    value: 1000,
+  });
+});
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  setSheetDefaults(
+    Object.fromEntries(
+      Object.keys(getSheetDefaults()).map((key) => [key, undefined]),
+    ),
+  );
+  if (originalInnerHeight) {
+    Object.defineProperty(window, "innerHeight", originalInnerHeight);
+  }
+  document.body.innerHTML = "";
+});
+
+describe("sheet tuning defaults", () => {
+  it("applies global defaults to sheets created afterwards", async () => {
+    configureSheetDefaults({ stackOffsetStep: 20, stackScaleStep: 0.1 });
+
+    const lower = await openStackedPair();
+
+    expect(
+      lower.element.style.getPropertyValue("--vsheet-stack-offset-y"),
+    ).toBe("-20px");
+    expect(lower.element.style.getPropertyValue("--vsheet-stack-scale")).toBe(
+      "0.9",
+    );
+  });
+
+  it("lets per-instance options win over global defaults", async () => {
+    configureSheetDefaults({ stackOffsetStep: 20, mobileMaxHeightRatio: 0.8 });
+
+    const lower = await openStackedPair({
+      stackOffsetStep: 6,
+      mobileMaxHeightRatio: 0.9,
+    });
+
+    expect(
+      lower.element.style.getPropertyValue("--vsheet-stack-offset-y"),
+    ).toBe("-6px");
+    expect(lower.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "900px",
+    );
+  });
+
+  it("clamps stack scale at stackMinScale", async () => {
+    const lower = await openStackedPair({
+      stackScaleStep: 0.5,
+      stackMinScale: 0.8,
+    });
+
+    expect(lower.element.style.getPropertyValue("--vsheet-stack-scale")).toBe(
+      "0.8",
+    );
+  });
+
+  it("restores built-in values when a key is reset to undefined", async () => {
+    configureSheetDefaults({ mobileMaxHeightRatio: 0.5 });
+    configureSheetDefaults({ mobileMaxHeightRatio: undefined });
+
+    const sheet = createSheet({ isOpen: van.state(true), content: "content" });
+    mountedSheets.push(sheet);
+    await flush();
+
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "950px",
+    );
+  });
+
+  it("validates global and per-instance values", () => {
+    expect(() => configureSheetDefaults({ stackMinScale: 0 })).toThrow(
+      /^configureSheetDefaults: invalid `stackMinScale` 0/,
+    );
+    expect(() =>
+      configureSheetDefaults({ dragCloseThreshold: "12em" as "12px" }),
+    ).toThrow(/invalid `dragCloseThreshold` "12em"/);
+    expect(() =>
+      createSheet({
+        isOpen: van.state(false),
+        content: "content",
+        transitionFallbackMs: -1,
+      }),
+    ).toThrow(/^createSheet: invalid `transitionFallbackMs` -1/);
+  });
+});
+
+const createIcon = (testId: string) => () => {
+  const icon = document.createElement("span");
+  icon.dataset.testid = testId;
+  return icon;
+};
+
+describe("sheet option defaults", () => {
+  it("merges global defaults under each call's options", async () => {
+    setSheetDefaults({
+      closeIcon: createIcon("house-icon"),
+      showBackdrop: false,
+      floatingCloseButton: true,
+    });
+
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      floatingCloseButton: false,
+      showBackdrop: undefined,
+    });
+    mountedSheets.push(sheet);
+    await flush();
+
+    expect(
+      sheet.element.querySelector(".vsheet-close [data-testid='house-icon']"),
+    ).not.toBeNull();
+    expect(
+      sheet.element.querySelector<HTMLElement>(".vsheet-backdrop")?.hidden,
+    ).toBe(true);
+    expect(sheet.element.dataset.floatingCloseButton).toBeUndefined();
+  });
+
+  it("reports global defaults, including tuning set through configureSheetDefaults", () => {
+    const mountTo = document.createElement("div");
+    setSheetDefaults({ mountTo, closeOnEscape: false });
+    configureSheetDefaults({ stackOffsetStep: 20 });
+
+    const defaults = getSheetDefaults();
+    expect(defaults).toEqual({
+      mountTo,
+      closeOnEscape: false,
+      stackOffsetStep: 20,
+    });
+
+    defaults.closeOnEscape = true;
+    expect(getSheetDefaults().closeOnEscape).toBe(false);
+
+    setSheetDefaults({ closeOnEscape: undefined });
+    expect(getSheetDefaults()).toEqual({ mountTo, stackOffsetStep: 20 });
+  });
+
+  it("layers factory defaults between global defaults and call options", async () => {
+    const panelHost = document.createElement("section");
+    document.body.append(panelHost);
+    setSheetDefaults({
+      closeIcon: createIcon("global-icon"),
+      showCloseButton: false,
+    });
+
+    const createAccountSheet = createSheetFactory({
+      closeIcon: createIcon("account-icon"),
+      mountTo: panelHost,
+    });
+    const accountSheet = createAccountSheet({
+      isOpen: van.state(true),
+      content: "account",
+    });
+    const overriddenSheet = createAccountSheet({
+      isOpen: van.state(true),
+      content: "override",
+      closeIcon: createIcon("call-icon"),
+      showCloseButton: true,
+    });
+    const plainSheet = createSheet({
+      isOpen: van.state(true),
+      content: "plain",
+    });
+    mountedSheets.push(accountSheet, overriddenSheet, plainSheet);
+    await flush();
+
+    expect(accountSheet.element.parentElement).toBe(panelHost);
+    expect(
+      accountSheet.element.querySelector("[data-testid='account-icon']"),
+    ).not.toBeNull();
+    expect(
+      accountSheet.element.querySelector<HTMLElement>(".vsheet-close")?.hidden,
+    ).toBe(true);
+    expect(
+      overriddenSheet.element.querySelector("[data-testid='call-icon']"),
+    ).not.toBeNull();
+    expect(
+      overriddenSheet.element.querySelector<HTMLElement>(".vsheet-close")
+        ?.hidden,
+    ).toBe(false);
+    expect(plainSheet.element.parentElement).toBe(document.body);
+    expect(
+      plainSheet.element.querySelector("[data-testid='global-icon']"),
+    ).not.toBeNull();
+  });
+
+  it("validates tuning passed through setSheetDefaults and factories", () => {
+    expect(() => setSheetDefaults({ stackScaleStep: 1 })).toThrow(
+      /^setSheetDefaults: invalid `stackScaleStep` 1/,
+    );
+    expect(() => createSheetFactory({ mobileMaxHeightRatio: 2 })).toThrow(
+      /^createSheetFactory: invalid `mobileMaxHeightRatio` 2/,
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import van from "vanjs-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import { defaultSheetStackCoordinator } from "../src/internal/stack";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const finishTransition = (sheet: ReturnType<typeof createSheet>) => {
+  const transitionEnd = new Event("transitionend");
+  Object.defineProperty(transitionEnd, "propertyName", { value: "transform" });
+  sheet.element.querySelector(".vsheet-panel")?.dispatchEvent(transitionEnd);
+};
+
+let activeKeydownListeners = new Set<EventListenerOrEventListenerObject>();
+
+beforeEach(() => {
+  activeKeydownListeners = new Set();
+  const addEventListener = document.addEventListener.bind(document);
+  const removeEventListener = document.removeEventListener.bind(document);
+  vi.spyOn(document, "addEventListener").mockImplementation(
+    (type, listener, options) => {
+      if (type === "keydown" && listener) {
+        activeKeydownListeners.add(listener);
+      }
+      addEventListener(type, listener, options);
+    },
+  );
+  vi.spyOn(document, "removeEventListener").mockImplementation(
+    (type, listener, options) => {
+      if (type === "keydown" && listener) {
+        activeKeydownListeners.delete(listener);
+      }
+      removeEventListener(type, listener, options);
+    },
+  );
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  document.body.innerHTML = "";
+});
+
+describe("createSheet destroyOnClose", () => {
+  it("disposes the sheet once the close transition completes", async () => {
+    const participantsBefore =
+      defaultSheetStackCoordinator.getParticipantCount();
+    const isOpen = van.state(true);
+    const onAfterClose = vi.fn();
+    const sheet = createSheet({
+      isOpen,
+      content: "body",
+      destroyOnClose: true,
+      onAfterClose,
+    });
+    expect(activeKeydownListeners.size).toBe(2);
+    expect(defaultSheetStackCoordinator.getParticipantCount()).toBe(
+      participantsBefore + 1,
+    );
+
+    sheet.element.querySelector<HTMLButtonElement>(".vsheet-backdrop")?.click();
+    await flush();
+    expect(sheet.element.isConnected).toBe(true);
+
+    finishTransition(sheet);
+
+    expect(onAfterClose).toHaveBeenCalledWith("backdrop");
+    expect(sheet.element.isConnected).toBe(false);
+    expect(activeKeydownListeners.size).toBe(0);
+    expect(defaultSheetStackCoordinator.getParticipantCount()).toBe(
+      participantsBefore,
+    );
+    expect(document.body.style.overflow).toBe("");
+  });
+
+  it("disposes after the transition fallback when no transitionend fires", async () => {
+    vi.useFakeTimers();
+    const participantsBefore =
+      defaultSheetStackCoordinator.getParticipantCount();
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "body",
+      destroyOnClose: true,
+    });
+
+    const closed = sheet.close();
+    await vi.advanceTimersByTimeAsync(550);
+
+    await expect(closed).resolves.toBe(true);
+    expect(sheet.element.isConnected).toBe(false);
+    expect(activeKeydownListeners.size).toBe(0);
+    expect(defaultSheetStackCoordinator.getParticipantCount()).toBe(
+      participantsBefore,
+    );
+  });
+
+  it("keeps the sheet mounted when reopened before the close settles", async () => {
+    const isOpen = van.state(true);
+    const sheet = createSheet({
+      isOpen,
+      content: "body",
+      destroyOnClose: true,
+    });
+
+    isOpen.val = false;
+    await flush();
+    isOpen.val = true;
+    await flush();
+    finishTransition(sheet);
+
+    expect(sheet.element.isConnected).toBe(true);
+    expect(activeKeydownListeners.size).toBe(2);
+    sheet.destroy();
+    expect(activeKeydownListeners.size).toBe(0);
+  });
+
+  it("ignores open state changes after disposal", async () => {
+    const isOpen = van.state(true);
+    const sheet = createSheet({
+      isOpen,
+      content: "body",
+      destroyOnClose: true,
+    });
+
+    isOpen.val = false;
+    await flush();
+    finishTransition(sheet);
+    sheet.destroy();
+
+    isOpen.val = true;
+    await flush();
+
+    expect(sheet.element.isConnected).toBe(false);
+    expect(sheet.phase.val).toBe("closed");
+    expect(activeKeydownListeners.size).toBe(0);
+  });
+
+  it("keeps sheets mounted after closing by default", async () => {
+    const isOpen = van.state(true);
+    const sheet = createSheet({ isOpen, content: "body" });
+
+    isOpen.val = false;
+    await flush();
+    finishTransition(sheet);
+
+    expect(sheet.element.isConnected).toBe(true);
+    expect(activeKeydownListeners.size).toBe(2);
+    sheet.destroy();
+  });
+});
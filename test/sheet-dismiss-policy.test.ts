@@ -0,0 +1,149 @@
+import van from "vanjs-core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import type { SheetOptions } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const dispatchPointerEvent = (
+  target: EventTarget,
+  type: string,
+  clientY: number,
+) => {
+  const event = new Event(type, {
+    bubbles: true,
+    cancelable: true,
+  }) as PointerEvent;
+  const properties = {
+    pointerId: 1,
+    pointerType: "touch",
+    isPrimary: true,
+    button: 0,
+    clientX: 0,
+    clientY,
+    timeStamp: 0,
+  };
+  for (const [key, value] of Object.entries(properties)) {
+    Object.defineProperty(event, key, { configurable: true, value });
+  }
+  target.dispatchEvent(event);
+};
+
+const dragPanelDown = (sheet: ReturnType<typeof createSheet>) => {
+  const panel = sheet.element.querySelector(".vsheet-panel") as HTMLElement;
+  dispatchPointerEvent(panel, "pointerdown", 100);
+  dispatchPointerEvent(panel, "pointermove", 400);
+  dispatchPointerEvent(panel, "pointerup", 400);
+};
+
+const pressEscape = (init: KeyboardEventInit = {}) => {
+  document.dispatchEvent(
+    new KeyboardEvent("keydown", { key: "Escape", bubbles: true, ...init }),
+  );
+};
+
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+const mountSheet = (options: Omit<SheetOptions, "content">) => {
+  const sheet = createSheet({ content: "content", ...options });
+  mountedSheets.push(sheet);
+  return sheet;
+};
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  document.body.innerHTML = "";
+});
+
+describe("createSheet dismissOn policy", () => {
+  it("allows drag-close while blocking the close button", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({
+      isOpen,
+      dismissOn: { "close-button": false },
+    });
+    await flush();
+
+    sheet.element.querySelector<HTMLElement>(".vsheet-close")?.click();
+    await flush();
+    expect(isOpen.val).toBe(true);
+
+    dragPanelDown(sheet);
+    await flush();
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("lets explicit entries override the boolean shorthands", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({
+      isOpen,
+      dismissible: false,
+      closeOnBackdrop: false,
+      dismissOn: { backdrop: true },
+    });
+    await flush();
+
+    pressEscape();
+    await flush();
+    expect(isOpen.val).toBe(true);
+
+    sheet.element.querySelector<HTMLElement>(".vsheet-backdrop")?.click();
+    await flush();
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("passes the triggering event to predicates", async () => {
+    const isOpen = van.state(true);
+    const escapePolicy = vi.fn(
+      (event?: Event) => !(event as KeyboardEvent).repeat,
+    );
+    mountSheet({ isOpen, dismissOn: { escape: escapePolicy } });
+    await flush();
+
+    pressEscape({ repeat: true });
+    await flush();
+    expect(isOpen.val).toBe(true);
+    expect(escapePolicy.mock.calls[0][0]).toBeInstanceOf(KeyboardEvent);
+
+    pressEscape();
+    await flush();
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("consults predicates without an event for close(reason) and skips them for api", async () => {
+    const isOpen = van.state(true);
+    const backdropPolicy = vi.fn(() => false);
+    const sheet = mountSheet({
+      isOpen,
+      dismissOn: { backdrop: backdropPolicy },
+    });
+    await flush();
+
+    sheet.close("backdrop");
+    await flush();
+    expect(isOpen.val).toBe(true);
+    expect(backdropPolicy).toHaveBeenCalledWith(undefined);
+
+    sheet.close();
+    await flush();
+    expect(isOpen.val).toBe(false);
+    expect(backdropPolicy).toHaveBeenCalledTimes(1);
+  });
+
+  it("settles a blocked drag back to rest", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({ isOpen, dismissOn: { drag: () => false } });
+    await flush();
+
+    dragPanelDown(sheet);
+    await flush();
+
+    const panel = sheet.element.querySelector(".vsheet-panel") as HTMLElement;
+    expect(isOpen.val).toBe(true);
+    expect(panel.style.transform).toBe("translateY(0px)");
+  });
+});
@@ -0,0 +1,269 @@
+import van from "vanjs-core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import type { SheetOptions } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+type DragStep = [clientY: number, timeStamp: number];
+
+const dispatchPointerEvent = (
+  target: EventTarget,
+  type: string,
+  [clientY, timeStamp]: DragStep,
+) => {
+  const event = new Event(type, {
+    bubbles: true,
+    cancelable: true,
+  }) as PointerEvent;
+  const properties = {
+    pointerId: 1,
+    pointerType: "touch",
+    isPrimary: true,
+    button: 0,
+    clientX: 0,
+    clientY,
+    timeStamp,
+  };
+  for (const [key, value] of Object.entries(properties)) {
+    Object.defineProperty(event, key, { configurable: true, value });
+  }
+  target.dispatchEvent(event);
+};
+
+// First step presses, the rest move, and the pointer lifts at `releaseAt`.
+const dragPanel = (
+  sheet: ReturnType<typeof createSheet>,
+  steps: DragStep[],
+  releaseAt: number,
+) => {
+  const panel = sheet.element.querySelector(".vsheet-panel") as HTMLElement;
+  const [pressStep, ...moveSteps] = steps;
+  dispatchPointerEvent(panel, "pointerdown", pressStep);
+  for (const step of moveSteps) {
+    dispatchPointerEvent(panel, "pointermove", step);
+  }
+  const lastStep = steps[steps.length - 1];
+  dispatchPointerEvent(panel, "pointerup", [lastStep[0], releaseAt]);
+};
+
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+const mountSheet = (options: Omit<SheetOptions, "content">) => {
+  const sheet = createSheet({ content: "content", ...options });
+  mountedSheets.push(sheet);
+  const panel = sheet.element.querySelector(".vsheet-panel") as HTMLElement;
+  panel.getBoundingClientRect = () => ({ width: 400, height: 400 }) as DOMRect;
+  return sheet;
+};
+
+const originalInnerHeight = Object.getOwnPropertyDescriptor(
+  window,
+  "innerHeight",
+);
+
+beforeEach(() => {
+  Object.defineProperty(window, "innerHeight", {
+    configurable: true,
+    writable: true,
+    value: 1000,
+  });
+});
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  if (originalInnerHeight) {
+    Object.defineProperty(window, "innerHeight", originalInnerHeight);
+  }
+  document.body.innerHTML = "";
+});
+
+describe("createSheet drag fling", () => {
+  it("dismisses on a quick flick shorter than the drag threshold", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({ isOpen });
+    await flush();
+
+    dragPanel(
+      sheet,
+      [
+        [100, 0],
+        [130, 10],
+        [160, 20],
+      ],
+      24,
+    );
+    await flush();
+
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("snaps back after a slow short drag", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({ isOpen });
+    await flush();
+
+    dragPanel(
+      sheet,
+      [
+        [100, 0],
+        [130, 200],
+        [160, 400],
+      ],
+      420,
+    );
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+  });
+
+  it("ignores velocity when the pointer rests before release", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({ isOpen });
+    await flush();
+
+    dragPanel(
+      sheet,
+      [
+        [100, 0],
+        [160, 20],
+      ],
+      400,
+    );
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+  });
+
+  it("respects a custom flingVelocityThreshold", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({ isOpen, flingVelocityThreshold: 5 });
+    await flush();
+
+    dragPanel(
+      sheet,
+      [
+        [100, 0],
+        [160, 20],
+      ],
+      24,
+    );
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+  });
+
+  it("resolves fractional dragCloseThreshold against the panel extent", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({ isOpen, dragCloseThreshold: 0.25 });
+    await flush();
+
+    dragPanel(
+      sheet,
+      [
+        [100, 0],
+        [190, 1000],
+      ],
+      1000,
+    );
+    await flush();
+    expect(isOpen.val).toBe(true);
+
+    dragPanel(
+      sheet,
+      [
+        [100, 2000],
+        [210, 3000],
+      ],
+      3000,
+    );
+    await flush();
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("accepts pixel dragCloseThreshold values", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({ isOpen, dragCloseThreshold: "60px" });
+    await flush();
+
+    dragPanel(
+      sheet,
+      [
+        [100, 0],
+        [170, 1000],
+      ],
+      1000,
+    );
+    await flush();
+
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("flings one snap point at a time and dismisses below the lowest", async () => {
+    const isOpen = van.state(true);
+    const activeSnapPoint = van.state(2);
+    const sheet = mountSheet({
+      isOpen,
+      snapPoints: [0.25, 0.5, 0.95],
+      activeSnapPoint,
+    });
+    await flush();
+
+    dragPanel(
+      sheet,
+      [
+        [100, 0],
+        [140, 20],
+      ],
+      24,
+    );
+    await flush();
+    expect(activeSnapPoint.val).toBe(1);
+
+    dragPanel(
+      sheet,
+      [
+        [500, 100],
+        [460, 120],
+      ],
+      124,
+    );
+    await flush();
+    expect(activeSnapPoint.val).toBe(2);
+
+    sheet.snapTo(0);
+    await flush();
+
+    dragPanel(
+      sheet,
+      [
+        [100, 200],
+        [140, 220],
+      ],
+      224,
+    );
+    await flush();
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("rejects invalid thresholds", () => {
+    expect(() =>
+      createSheet({
+        isOpen: van.state(false),
+        content: "content",
+        dragCloseThreshold: 1.5,
+      }),
+    ).toThrow(/invalid `dragCloseThreshold` 1.5/);
+    expect(() =>
+      createSheet({
+        isOpen: van.state(false),
+        content: "content",
+        flingVelocityThreshold: 0,
+      }),
+    ).toThrow(/invalid `flingVelocityThreshold` 0/);
+  });
+});
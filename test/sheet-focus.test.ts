@@ -0,0 +1,217 @@
+import van from "vanjs-core";
+import { afterEach, describe, expect, it } from "vitest";
+import { createSheet } from "../src/create-sheet";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const pressTab = (shiftKey = false) => {
+  const event = new KeyboardEvent("keydown", {
+    key: "Tab",
+    shiftKey,
+    bubbles: true,
+    cancelable: true,
+  });
+  (document.activeElement ?? document.body).dispatchEvent(event);
+  return event;
+};
+
+const createFormContent = () => {
+  const content = document.createElement("div");
+  content.innerHTML = `
+    <input data-testid="name" />
+    <button type="button" data-testid="save">Save</button>
+    <button type="button" disabled>Disabled</button>
+  `;
+  return content;
+};
+
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+const mountTrigger = () => {
+  const trigger = document.createElement("button");
+  trigger.type = "button";
+  trigger.textContent = "Open";
+  document.body.append(trigger);
+  trigger.focus();
+  return trigger;
+};
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  document.body.innerHTML = "";
+});
+
+describe("createSheet focus management", () => {
+  it("moves focus to the first tabbable element on open and restores it on close", async () => {
+    const trigger = mountTrigger();
+    const isOpen = van.state(false);
+    const sheet = createSheet({ isOpen, content: createFormContent() });
+    mountedSheets.push(sheet);
+
+    isOpen.val = true;
+    await flush();
+
+    expect(document.activeElement).toBe(
+      sheet.element.querySelector(".vsheet-close"),
+    );
+
+    isOpen.val = false;
+    await flush();
+
+    expect(document.activeElement).toBe(trigger);
+  });
+
+  it("supports selector and element initial focus targets", async () => {
+    const content = createFormContent();
+    const selectorSheet = createSheet({
+      isOpen: van.state(true),
+      content,
+      initialFocus: "[data-testid='save']",
+    });
+    mountedSheets.push(selectorSheet);
+    await flush();
+
+    expect(document.activeElement).toBe(
+      content.querySelector("[data-testid='save']"),
+    );
+
+    const otherContent = createFormContent();
+    const input = otherContent.querySelector<HTMLElement>("input");
+    const elementSheet = createSheet({
+      isOpen: van.state(true),
+      content: otherContent,
+      initialFocus: input as HTMLElement,
+    });
+    mountedSheets.push(elementSheet);
+    await flush();
+
+    expect(document.activeElement).toBe(input);
+  });
+
+  it("focuses the panel when nothing inside is tabbable", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "plain text",
+      showCloseButton: false,
+    });
+    mountedSheets.push(sheet);
+    await flush();
+
+    const panel = sheet.element.querySelector(".vsheet-panel");
+    expect(document.activeElement).toBe(panel);
+
+    const event = pressTab();
+    expect(event.defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(panel);
+  });
+
+  it("cycles Tab and Shift+Tab within the panel", async () => {
+    const content = createFormContent();
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content,
+    });
+    mountedSheets.push(sheet);
+    await flush();
+
+    const closeButton = sheet.element.querySelector(".vsheet-close");
+    const saveButton = content.querySelector<HTMLElement>(
+      "[data-testid='save']",
+    );
+    expect(document.activeElement).toBe(closeButton);
+
+    const shiftTab = pressTab(true);
+    expect(shiftTab.defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(saveButton);
+
+    const tab = pressTab();
+    expect(tab.defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(closeButton);
+
+    content.querySelector<HTMLElement>("input")?.focus();
+    expect(pressTab().defaultPrevented).toBe(false);
+  });
+
+  it("traps focus only in the top-most sheet and returns focus down the stack", async () => {
+    const trigger = mountTrigger();
+    const firstContent = createFormContent();
+    const firstSheet = createSheet({
+      isOpen: van.state(false),
+      content: firstContent,
+      initialFocus: "[data-testid='save']",
+    });
+    mountedSheets.push(firstSheet);
+    firstSheet.open();
+    await flush();
+
+    const firstSave = firstContent.querySelector("[data-testid='save']");
+    expect(document.activeElement).toBe(firstSave);
+
+    const secondOpen = van.state(false);
+    const secondSheet = createSheet({
+      isOpen: secondOpen,
+      content: createFormContent(),
+    });
+    mountedSheets.push(secondSheet);
+    secondOpen.val = true;
+    await flush();
+
+    const secondClose = secondSheet.element.querySelector(".vsheet-close");
+    expect(document.activeElement).toBe(secondClose);
+    pressTab(true);
+    expect(secondSheet.element.contains(document.activeElement)).toBe(true);
+
+    secondOpen.val = false;
+    await flush();
+    expect(document.activeElement).toBe(firstSave);
+
+    firstSheet.close();
+    await flush();
+    expect(document.activeElement).toBe(trigger);
+  });
+
+  it("honors initialFocus false and returnFocus false", async () => {
+    const trigger = mountTrigger();
+    const isOpen = van.state(false);
+    const sheet = createSheet({
+      isOpen,
+      content: createFormContent(),
+      initialFocus: false,
+      returnFocus: false,
+    });
+    mountedSheets.push(sheet);
+
+    isOpen.val = true;
+    await flush();
+    expect(document.activeElement).toBe(trigger);
+
+    sheet.element.querySelector<HTMLElement>(".vsheet-close")?.focus();
+    isOpen.val = false;
+    await flush();
+    expect(document.activeElement).not.toBe(trigger);
+  });
+
+  it("returns focus to a custom returnFocus element", async () => {
+    mountTrigger();
+    const fallback = document.createElement("button");
+    document.body.append(fallback);
+    const isOpen = van.state(false);
+    const sheet = createSheet({
+      isOpen,
+      content: createFormContent(),
+      returnFocus: fallback,
+    });
+    mountedSheets.push(sheet);
+
+    isOpen.val = true;
+    await flush();
+    isOpen.val = false;
+    await flush();
+
+    expect(document.activeElement).toBe(fallback);
+  });
+});
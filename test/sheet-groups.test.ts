@@ -0,0 +1,199 @@
+import van from "vanjs-core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import type { SheetInstance, SheetOptions } from "../src/types";
+
+const { button, div } = van.tags;
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+const finishTransition = (sheet: SheetInstance, propertyName = "transform") => {
+  const transitionEnd = new Event("transitionend", { bubbles: true });
+  Object.defineProperty(transitionEnd, "propertyName", { value: propertyName });
+  sheet.element.querySelector(".vsheet-panel")?.dispatchEvent(transitionEnd);
+};
+
+let sheets: SheetInstance[] = [];
+
+const createGroupSheet = (options: Partial<SheetOptions> = {}) => {
+  const isOpen = van.state(false);
+  const sheet = createSheet({
+    isOpen,
+    group: "toolbar",
+    content: div(button("Action")),
+    ...options,
+  });
+  sheets.push(sheet);
+  return { isOpen, sheet };
+};
+
+afterEach(() => {
+  for (const sheet of sheets) {
+    sheet.destroy();
+  }
+  sheets = [];
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("createSheet groups", () => {
+  it("closes the open member of the group with reason replaced", async () => {
+    const sortOpenChange = vi.fn();
+    const sortBeforeClose = vi.fn(() => true);
+    const sort = createGroupSheet({
+      onOpenChange: sortOpenChange,
+      beforeClose: sortBeforeClose,
+    });
+    const filters = createGroupSheet();
+
+    sort.isOpen.val = true;
+    await flush();
+    await filters.sheet.open();
+
+    expect(sort.isOpen.val).toBe(false);
+    expect(sortBeforeClose).toHaveBeenCalledWith("replaced");
+    expect(sortOpenChange).toHaveBeenLastCalledWith(false, "replaced");
+  });
+
+  it("keeps replaced sheets out of the stack depth visuals", async () => {
+    const page = createGroupSheet({ group: undefined });
+    const sort = createGroupSheet();
+    const filters = createGroupSheet();
+    page.isOpen.val = true;
+    sort.isOpen.val = true;
+    await flush();
+
+    filters.isOpen.val = true;
+    await flush();
+
+    expect(filters.sheet.element.dataset.stackSize).toBe("2");
+    expect(filters.sheet.element.dataset.stackTop).toBe("true");
+    expect(page.sheet.element.dataset.stackDepth).toBe("1");
+    expect(sort.sheet.element.dataset.stackDepth).toBeUndefined();
+    expect(
+      sort.sheet.element.style.getPropertyValue("--vsheet-stack-scale"),
+    ).toBe("");
+  });
+
+  it("crossfades the outgoing and incoming panels until they settle", async () => {
+    const sort = createGroupSheet();
+    const filters = createGroupSheet();
+    sort.isOpen.val = true;
+    await flush();
+    finishTransition(sort.sheet);
+    expect(sort.sheet.element.dataset.groupTransition).toBeUndefined();
+
+    filters.isOpen.val = true;
+    await flush();
+
+    expect(filters.sheet.element.dataset.groupTransition).toBe("in");
+    expect(sort.sheet.element.dataset.groupTransition).toBe("out");
+    expect(sort.sheet.phase.val).toBe("closing");
+
+    finishTransition(filters.sheet, "opacity");
+    finishTransition(sort.sheet, "opacity");
+
+    expect(filters.sheet.phase.val).toBe("open");
+    expect(sort.sheet.phase.val).toBe("closed");
+    expect(filters.sheet.element.dataset.groupTransition).toBeUndefined();
+    expect(sort.sheet.element.dataset.groupTransition).toBeUndefined();
+  });
+
+  it("leaves other groups and ungrouped sheets stacked", async () => {
+    const sort = createGroupSheet();
+    const share = createGroupSheet({ group: "share" });
+    const page = createGroupSheet({ group: undefined });
+    sort.isOpen.val = true;
+    await flush();
+    share.isOpen.val = true;
+    page.isOpen.val = true;
+    await flush();
+
+    expect(sort.isOpen.val).toBe(true);
+    expect(share.isOpen.val).toBe(true);
+    expect(page.sheet.element.dataset.stackSize).toBe("3");
+    expect(share.sheet.element.dataset.groupTransition).toBeUndefined();
+  });
+
+  it("stacks on top when a member vetoes being replaced", async () => {
+    const sort = createGroupSheet({
+      beforeClose: (reason) => reason !== "replaced",
+    });
+    const filters = createGroupSheet();
+    sort.isOpen.val = true;
+    await flush();
+
+    filters.isOpen.val = true;
+    await flush();
+
+    expect(sort.isOpen.val).toBe(true);
+    expect(filters.sheet.element.dataset.stackSize).toBe("2");
+    expect(filters.sheet.element.dataset.groupTransition).toBeUndefined();
+  });
+
+  it("replaces members regardless of dismissal settings", async () => {
+    const sort = createGroupSheet({ dismissible: false });
+    const filters = createGroupSheet();
+    sort.isOpen.val = true;
+    await flush();
+
+    await filters.sheet.open();
+
+    expect(sort.isOpen.val).toBe(false);
+  });
+
+  it("replaces open members when created open", async () => {
+    const sort = createGroupSheet();
+    sort.isOpen.val = true;
+    await flush();
+
+    const filters = createGroupSheet({ isOpen: van.state(true) });
+    await flush();
+
+    expect(sort.isOpen.val).toBe(false);
+    expect(filters.sheet.element.dataset.stackSize).toBe("1");
+  });
+
+  it("returns focus to the replaced sheet's trigger", async () => {
+    const trigger = button("Sort");
+    document.body.append(trigger);
+    trigger.focus();
+    const sort = createGroupSheet();
+    const filters = createGroupSheet();
+
+    sort.isOpen.val = true;
+    await flush();
+    expect(sort.sheet.element.contains(document.activeElement)).toBe(true);
+
+    filters.isOpen.val = true;
+    await flush();
+    expect(filters.sheet.element.contains(document.activeElement)).toBe(true);
+
+    filters.isOpen.val = false;
+    await flush();
+    expect(document.activeElement).toBe(trigger);
+  });
+
+  it("drops destroyed sheets from their group", async () => {
+    const sort = createGroupSheet();
+    const filters = createGroupSheet();
+    sort.isOpen.val = true;
+    await flush();
+    const sortOpen = sort.isOpen;
+    sort.sheet.destroy();
+
+    filters.isOpen.val = true;
+    await flush();
+
+    expect(sortOpen.val).toBe(true);
+  });
+
+  it("rejects an empty group name", () => {
+    expect(() =>
+      createSheet({ isOpen: van.state(false), content: "body", group: " " }),
+    ).toThrow("createSheet: `group` must be a non-empty string.");
+  });
+});
@@ -0,0 +1,196 @@
+import van from "vanjs-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import type { SheetInstance, SheetOptions } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+const waitForPopState = async () => {
+  await new Promise<void>((resolve) => {
+    window.addEventListener("popstate", () => resolve(), { once: true });
+  });
+  await flush();
+};
+
+const hasSheetHistoryState = () =>
+  typeof window.history.state === "object" &&
+  window.history.state !== null &&
+  "vsheetHistory" in window.history.state;
+
+let sheets: SheetInstance[] = [];
+
+const openHistorySheet = async (options: Partial<SheetOptions> = {}) => {
+  const isOpen = van.state(false);
+  const sheet = createSheet({
+    isOpen,
+    content: "body",
+    closeOnHistoryBack: true,
+    ...options,
+  });
+  sheets.push(sheet);
+  isOpen.val = true;
+  await flush();
+  return { isOpen, sheet };
+};
+
+beforeEach(() => {
+  window.history.replaceState({ page: "home" }, "");
+});
+
+// Destroying open sheets steps history back; settle it before the next test.
+afterEach(async () => {
+  for (const sheet of sheets) {
+    sheet.destroy();
+  }
+  sheets = [];
+  if (hasSheetHistoryState()) {
+    await waitForPopState();
+  }
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("createSheet closeOnHistoryBack", () => {
+  it("pushes a history entry on open that keeps the existing state", async () => {
+    const pushState = vi.spyOn(window.history, "pushState");
+    await openHistorySheet();
+
+    expect(pushState).toHaveBeenCalledTimes(1);
+    expect(hasSheetHistoryState()).toBe(true);
+    expect(window.history.state.page).toBe("home");
+  });
+
+  it("closes the sheet on Back with the history reason", async () => {
+    const onOpenChange = vi.fn();
+    const onAfterClose = vi.fn();
+    const { isOpen } = await openHistorySheet({ onOpenChange, onAfterClose });
+
+    window.history.back();
+    await waitForPopState();
+
+    expect(isOpen.val).toBe(false);
+    expect(onOpenChange).toHaveBeenLastCalledWith(false, "history");
+    expect(window.history.state).toEqual({ page: "home" });
+  });
+
+  it("pops its own entry when closed for another reason", async () => {
+    const { sheet } = await openHistorySheet();
+
+    sheet.element.querySelector<HTMLButtonElement>(".vsheet-backdrop")?.click();
+    await waitForPopState();
+
+    expect(window.history.state).toEqual({ page: "home" });
+  });
+
+  it("pops its entry when destroyed while open", async () => {
+    const { sheet } = await openHistorySheet();
+
+    sheet.destroy();
+    await waitForPopState();
+
+    expect(window.history.state).toEqual({ page: "home" });
+  });
+
+  it("closes stacked sheets top-down, one per Back press", async () => {
+    const pushState = vi.spyOn(window.history, "pushState");
+    const lower = await openHistorySheet();
+    const upper = await openHistorySheet();
+    expect(pushState).toHaveBeenCalledTimes(2);
+
+    window.history.back();
+    await waitForPopState();
+    expect(upper.isOpen.val).toBe(false);
+    expect(lower.isOpen.val).toBe(true);
+
+    window.history.back();
+    await waitForPopState();
+    expect(lower.isOpen.val).toBe(false);
+    expect(window.history.state).toEqual({ page: "home" });
+  });
+
+  it("closes the top sheet on Back even when only a lower sheet has the option", async () => {
+    const lower = await openHistorySheet();
+    const upperOpenChange = vi.fn();
+    const upper = await openHistorySheet({
+      closeOnHistoryBack: false,
+      onOpenChange: upperOpenChange,
+    });
+
+    window.history.back();
+    await waitForPopState();
+    expect(upper.isOpen.val).toBe(false);
+    expect(upperOpenChange).toHaveBeenLastCalledWith(false, "history");
+    expect(lower.isOpen.val).toBe(true);
+    expect(hasSheetHistoryState()).toBe(true);
+
+    window.history.back();
+    await waitForPopState();
+    expect(lower.isOpen.val).toBe(false);
+    expect(window.history.state).toEqual({ page: "home" });
+  });
+
+  it("skips the stale entry of a lower sheet that closed first", async () => {
+    const lower = await openHistorySheet();
+    const upper = await openHistorySheet();
+
+    lower.isOpen.val = false;
+    await flush();
+    expect(hasSheetHistoryState()).toBe(true);
+
+    window.history.back();
+    await waitForPopState();
+    expect(upper.isOpen.val).toBe(false);
+
+    await waitForPopState();
+    expect(window.history.state).toEqual({ page: "home" });
+  });
+
+  it("pushes entries requested while its own Back traversal is pending", async () => {
+    const first = await openHistorySheet();
+    first.isOpen.val = false;
+    await flush();
+
+    const pushState = vi.spyOn(window.history, "pushState");
+    const second = await openHistorySheet();
+    expect(pushState).not.toHaveBeenCalled();
+    await waitForPopState();
+
+    expect(pushState).toHaveBeenCalledTimes(1);
+    expect(hasSheetHistoryState()).toBe(true);
+
+    window.history.back();
+    await waitForPopState();
+    expect(second.isOpen.val).toBe(false);
+    expect(window.history.state).toEqual({ page: "home" });
+  });
+
+  it.each<[string, Partial<SheetOptions>]>([
+    ["beforeClose", { beforeClose: (reason) => reason !== "history" }],
+    ["dismissOn", { dismissOn: { history: false } }],
+  ])("re-pushes an entry when %s blocks the Back close", async (_, options) => {
+    const { isOpen, sheet } = await openHistorySheet(options);
+
+    window.history.back();
+    await waitForPopState();
+
+    expect(isOpen.val).toBe(true);
+    expect(hasSheetHistoryState()).toBe(true);
+
+    void sheet.close();
+    await waitForPopState();
+    expect(window.history.state).toEqual({ page: "home" });
+  });
+
+  it("leaves history untouched without the option", async () => {
+    const pushState = vi.spyOn(window.history, "pushState");
+    const { sheet } = await openHistorySheet({ closeOnHistoryBack: false });
+
+    sheet.element.querySelector<HTMLButtonElement>(".vsheet-backdrop")?.click();
+    await flush();
+
+    expect(pushState).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,175 @@
+import van from "vanjs-core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import type { SheetPhase, SheetReason } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const finishTransition = (
+  target: Element | null,
+  propertyName = "transform",
+) => {
+  const transitionEnd = new Event("transitionend", { bubbles: true });
+  Object.defineProperty(transitionEnd, "propertyName", { value: propertyName });
+  target?.dispatchEvent(transitionEnd);
+};
+
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  vi.useRealTimers();
+  document.body.innerHTML = "";
+});
+
+describe("createSheet lifecycle phases", () => {
+  it("starts in the phase matching the initial open state", () => {
+    const closedSheet = createSheet({ isOpen: van.state(false), content: "a" });
+    const openSheet = createSheet({ isOpen: van.state(true), content: "b" });
+    mountedSheets.push(closedSheet, openSheet);
+
+    expect(closedSheet.phase.val).toBe("closed");
+    expect(openSheet.phase.val).toBe("open");
+  });
+
+  it("moves through opening and closing until the panel transition ends", async () => {
+    const afterOpenReasons: SheetReason[] = [];
+    const afterCloseReasons: SheetReason[] = [];
+    const isOpen = van.state(false);
+    const sheet = createSheet({
+      isOpen,
+      content: "body",
+      onAfterOpen: (reason) => afterOpenReasons.push(reason),
+      onAfterClose: (reason) => afterCloseReasons.push(reason),
+    });
+    mountedSheets.push(sheet);
+    const panel = sheet.element.querySelector(".vsheet-panel");
+
+    sheet.open();
+    await flush();
+    expect(sheet.phase.val).toBe("opening");
+    expect(afterOpenReasons).toEqual([]);
+
+    finishTransition(panel);
+    expect(sheet.phase.val).toBe("open");
+    expect(afterOpenReasons).toEqual(["api"]);
+
+    sheet.element.querySelector<HTMLButtonElement>(".vsheet-backdrop")?.click();
+    await flush();
+    expect(sheet.phase.val).toBe("closing");
+
+    finishTransition(panel);
+    expect(sheet.phase.val).toBe("closed");
+    expect(afterCloseReasons).toEqual(["backdrop"]);
+  });
+
+  it("ignores transitions that bubble up from panel content", async () => {
+    const content = document.createElement("button");
+    const isOpen = van.state(false);
+    const sheet = createSheet({ isOpen, content });
+    mountedSheets.push(sheet);
+
+    isOpen.val = true;
+    await flush();
+    finishTransition(content);
+
+    expect(sheet.phase.val).toBe("opening");
+  });
+
+  it("waits for the panel transform past shorter panel transitions", async () => {
+    const onAfterOpen = vi.fn();
+    const isOpen = van.state(false);
+    const sheet = createSheet({
+      isOpen,
+      content: "body",
+      placement: "center",
+      onAfterOpen,
+    });
+    mountedSheets.push(sheet);
+    const panel = sheet.element.querySelector(".vsheet-panel");
+    let opened = false;
+    void sheet.open().then((result) => {
+      opened = result;
+    });
+    await flush();
+
+    finishTransition(panel, "opacity");
+    finishTransition(panel, "height");
+    await flush();
+    expect(sheet.phase.val).toBe("opening");
+    expect(onAfterOpen).not.toHaveBeenCalled();
+    expect(opened).toBe(false);
+
+    finishTransition(panel);
+    await flush();
+    expect(sheet.phase.val).toBe("open");
+    expect(onAfterOpen).toHaveBeenCalledTimes(1);
+    expect(opened).toBe(true);
+  });
+
+  it("settles the phase after the transition fallback timeout", async () => {
+    vi.useFakeTimers();
+    const onAfterClose = vi.fn();
+    const isOpen = van.state(true);
+    const sheet = createSheet({
+      isOpen,
+      content: "body",
+      transitionFallbackMs: 200,
+      onAfterClose,
+    });
+    mountedSheets.push(sheet);
+
+    isOpen.val = false;
+    await flush();
+    vi.advanceTimersByTime(199);
+    expect(sheet.phase.val).toBe("closing");
+
+    vi.advanceTimersByTime(1);
+    expect(sheet.phase.val).toBe("closed");
+    expect(onAfterClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips onAfterClose when reopened mid-transition", async () => {
+    const phases: SheetPhase[] = [];
+    const onAfterOpen = vi.fn();
+    const onAfterClose = vi.fn();
+    const isOpen = van.state(true);
+    const sheet = createSheet({
+      isOpen,
+      content: "body",
+      onAfterOpen,
+      onAfterClose,
+    });
+    mountedSheets.push(sheet);
+    van.derive(() => phases.push(sheet.phase.val));
+
+    isOpen.val = false;
+    await flush();
+    isOpen.val = true;
+    await flush();
+    finishTransition(sheet.element.querySelector(".vsheet-panel"));
+    await flush();
+
+    expect(onAfterClose).not.toHaveBeenCalled();
+    expect(onAfterOpen).toHaveBeenCalledTimes(1);
+    expect(phases).toEqual(["open", "closing", "opening", "open"]);
+  });
+
+  it("cancels pending phase callbacks on destroy", async () => {
+    vi.useFakeTimers();
+    const onAfterClose = vi.fn();
+    const isOpen = van.state(true);
+    const sheet = createSheet({ isOpen, content: "body", onAfterClose });
+
+    isOpen.val = false;
+    await flush();
+    sheet.destroy();
+    vi.runAllTimers();
+
+    expect(onAfterClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,187 @@
+import van from "vanjs-core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const finishTransition = (sheet: ReturnType<typeof createSheet>) => {
+  const transitionEnd = new Event("transitionend");
+  Object.defineProperty(transitionEnd, "propertyName", { value: "transform" });
+  sheet.element.querySelector(".vsheet-panel")?.dispatchEvent(transitionEnd);
+};
+
+const track = (promise: Promise<boolean>) => {
+  const result: { settled: boolean; value: boolean | null } = {
+    settled: false,
+    value: null,
+  };
+  void promise.then((value) => {
+    result.settled = true;
+    result.value = value;
+  });
+  return result;
+};
+
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  vi.useRealTimers();
+  document.body.innerHTML = "";
+});
+
+describe("createSheet promise-returning open/close", () => {
+  it("resolves open() only after the enter transition finishes", async () => {
+    const sheet = createSheet({ isOpen: van.state(false), content: "body" });
+    mountedSheets.push(sheet);
+
+    const opened = track(sheet.open());
+    await flush();
+    await flush();
+    expect(sheet.phase.val).toBe("opening");
+    expect(opened.settled).toBe(false);
+
+    finishTransition(sheet);
+    await flush();
+
+    expect(opened).toEqual({ settled: true, value: true });
+  });
+
+  it("resolves close() with true once the exit transition finishes", async () => {
+    const sheet = createSheet({ isOpen: van.state(true), content: "body" });
+    mountedSheets.push(sheet);
+
+    const closed = track(sheet.close());
+    await flush();
+    await flush();
+    expect(closed.settled).toBe(false);
+
+    finishTransition(sheet);
+    await flush();
+
+    expect(closed).toEqual({ settled: true, value: true });
+    expect(sheet.phase.val).toBe("closed");
+  });
+
+  it("resolves close() with false when a guard vetoes it", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "body",
+      beforeClose: async () => false,
+    });
+    mountedSheets.push(sheet);
+
+    await expect(sheet.close()).resolves.toBe(false);
+    expect(sheet.phase.val).toBe("open");
+  });
+
+  it("resolves open() with false when beforeOpen vetoes it", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(false),
+      content: "body",
+      beforeOpen: () => false,
+    });
+    mountedSheets.push(sheet);
+
+    await expect(sheet.open()).resolves.toBe(false);
+  });
+
+  it("waits for an async guard and then the transition", async () => {
+    vi.useFakeTimers();
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "body",
+      beforeClose: () => Promise.resolve(true),
+    });
+    mountedSheets.push(sheet);
+
+    const closed = track(sheet.close("escape"));
+    await vi.advanceTimersByTimeAsync(549);
+    expect(closed.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(closed).toEqual({ settled: true, value: true });
+  });
+
+  it("resolves immediately when already settled in the requested state", async () => {
+    const sheet = createSheet({ isOpen: van.state(true), content: "body" });
+    mountedSheets.push(sheet);
+
+    await expect(sheet.open()).resolves.toBe(true);
+  });
+
+  it("shares the pending transition with repeated calls", async () => {
+    const sheet = createSheet({ isOpen: van.state(false), content: "body" });
+    mountedSheets.push(sheet);
+
+    const first = track(sheet.open());
+    await flush();
+    const second = track(sheet.open());
+    finishTransition(sheet);
+    await flush();
+
+    expect(first).toEqual({ settled: true, value: true });
+    expect(second).toEqual({ settled: true, value: true });
+  });
+
+  it("resolves an interrupted close() with false when the sheet reopens", async () => {
+    const sheet = createSheet({ isOpen: van.state(true), content: "body" });
+    mountedSheets.push(sheet);
+
+    const closed = track(sheet.close());
+    await flush();
+    const opened = track(sheet.open());
+    await flush();
+    finishTransition(sheet);
+    await flush();
+
+    expect(closed).toEqual({ settled: true, value: false });
+    expect(opened).toEqual({ settled: true, value: true });
+  });
+
+  it("resolves with false when the change is reverted before it syncs", async () => {
+    const isOpen = van.state(false);
+    const sheet = createSheet({ isOpen, content: "body" });
+    mountedSheets.push(sheet);
+
+    const opened = track(sheet.open());
+    isOpen.val = false;
+    await flush();
+    await flush();
+
+    expect(opened).toEqual({ settled: true, value: false });
+    expect(sheet.phase.val).toBe("closed");
+  });
+
+  it("settles pending promises on destroy", async () => {
+    const sheet = createSheet({ isOpen: van.state(true), content: "body" });
+
+    const closed = track(sheet.close());
+    await flush();
+    sheet.destroy();
+    await flush();
+
+    expect(closed).toEqual({ settled: true, value: true });
+  });
+
+  it("resolves open() and close() with false after destroy", async () => {
+    const isOpen = van.state(true);
+    const sheet = createSheet({ isOpen, content: "body" });
+    sheet.destroy();
+
+    const closed = track(sheet.close());
+    await flush();
+    expect(closed).toEqual({ settled: true, value: false });
+    expect(isOpen.val).toBe(true);
+
+    isOpen.val = false;
+    const opened = track(sheet.open());
+    await flush();
+    expect(opened).toEqual({ settled: true, value: false });
+    expect(isOpen.val).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+import van from "vanjs-core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import type { SheetOptions, SheetReason } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const flushGuard = async () => {
+  for (let index = 0; index < 4; index += 1) {
+    await Promise.resolve();
+  }
+};
+
+const dispatchPointerEvent = (
+  target: EventTarget,
+  type: string,
+  clientY: number,
+) => {
+  const event = new Event(type, {
+    bubbles: true,
+    cancelable: true,
+  }) as PointerEvent;
+  const properties = {
+    pointerId: 1,
+    pointerType: "touch",
+    isPrimary: true,
+    button: 0,
+    clientX: 0,
+    clientY,
+    timeStamp: 0,
+  };
+  for (const [key, value] of Object.entries(properties)) {
+    Object.defineProperty(event, key, { configurable: true, value });
+  }
+  target.dispatchEvent(event);
+};
+
+const pressEscape = () => {
+  document.dispatchEvent(
+    new KeyboardEvent("keydown", { key: "Escape", bubbles: true }),
+  );
+};
+
+const createDeferred = () => {
+  let resolve: (value: boolean) => void = () => {};
+  let reject: (reason: unknown) => void = () => {};
+  const promise = new Promise<boolean>((resolvePromise, rejectPromise) => {
+    resolve = resolvePromise;
+    reject = rejectPromise;
+  });
+  return { promise, resolve, reject };
+};
+
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+const mountSheet = (options: Omit<SheetOptions, "content">) => {
+  const sheet = createSheet({ content: "content", ...options });
+  mountedSheets.push(sheet);
+  return sheet;
+};
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  document.body.innerHTML = "";
+});
+
+describe("createSheet open guards", () => {
+  it("vetoes dismissal synchronously without reporting an open change", async () => {
+    const isOpen = van.state(true);
+    const reasons: SheetReason[] = [];
+    const onOpenChange = vi.fn();
+    const sheet = mountSheet({
+      isOpen,
+      beforeClose: (reason) => {
+        reasons.push(reason);
+        return false;
+      },
+      onOpenChange,
+    });
+    await flush();
+
+    sheet.element.querySelector<HTMLElement>(".vsheet-backdrop")?.click();
+    pressEscape();
+    sheet.element.querySelector<HTMLElement>(".vsheet-close")?.click();
+    sheet.close();
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+    expect(reasons).toEqual(["backdrop", "escape", "close-button", "api"]);
+    expect(onOpenChange).not.toHaveBeenCalled();
+  });
+
+  it("closes once an async guard resolves true and ignores repeat requests meanwhile", async () => {
+    const isOpen = van.state(true);
+    const deferred = createDeferred();
+    const beforeClose = vi.fn(() => deferred.promise);
+    const onOpenChange = vi.fn();
+    const sheet = mountSheet({ isOpen, beforeClose, onOpenChange });
+    await flush();
+
+    const backdrop =
+      sheet.element.querySelector<HTMLElement>(".vsheet-backdrop");
+    backdrop?.click();
+    backdrop?.click();
+    pressEscape();
+    await flushGuard();
+
+    expect(beforeClose).toHaveBeenCalledTimes(1);
+    expect(isOpen.val).toBe(true);
+
+    deferred.resolve(true);
+    await flushGuard();
+
+    expect(isOpen.val).toBe(false);
+    expect(onOpenChange).toHaveBeenCalledWith(false, "backdrop");
+  });
+
+  it("keeps the sheet open when an async guard resolves false or rejects", async () => {
+    const isOpen = van.state(true);
+    let deferred = createDeferred();
+    const sheet = mountSheet({
+      isOpen,
+      beforeClose: () => deferred.promise,
+    });
+    await flush();
+
+    pressEscape();
+    deferred.resolve(false);
+    await flushGuard();
+    expect(isOpen.val).toBe(true);
+
+    deferred = createDeferred();
+    sheet.close();
+    deferred.reject(new Error("dialog failed"));
+    await flushGuard();
+    expect(isOpen.val).toBe(true);
+  });
+
+  it("treats a throwing guard as a veto", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet({
+      isOpen,
+      beforeClose: () => {
+        throw new Error("boom");
+      },
+    });
+    await flush();
+
+    sheet.close();
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+  });
+
+  it("animates a vetoed drag back to its resting position", async () => {
+    const isOpen = van.state(true);
+    const onOpenChange = vi.fn();
+    const sheet = mountSheet({
+      isOpen,
+      beforeClose: () => false,
+      onOpenChange,
+    });
+    await flush();
+
+    const panel = sheet.element.querySelector(".vsheet-panel") as HTMLElement;
+    dispatchPointerEvent(panel, "pointerdown", 100);
+    dispatchPointerEvent(panel, "pointermove", 400);
+    dispatchPointerEvent(panel, "pointerup", 400);
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+    expect(panel.style.transform).toBe("translateY(0px)");
+    expect(onOpenChange).not.toHaveBeenCalled();
+  });
+
+  it("guards opening with beforeOpen", async () => {
+    const isOpen = van.state(false);
+    const deferred = createDeferred();
+    const beforeOpen = vi.fn(() => deferred.promise);
+    const sheet = mountSheet({ isOpen, beforeOpen });
+
+    sheet.open();
+    await flushGuard();
+    expect(beforeOpen).toHaveBeenCalledWith("api");
+    expect(isOpen.val).toBe(false);
+
+    deferred.resolve(true);
+    await flushGuard();
+    expect(isOpen.val).toBe(true);
+  });
+
+  it("drops a pending guard result after destroy", async () => {
+    const isOpen = van.state(true);
+    const deferred = createDeferred();
+    const sheet = createSheet({
+      isOpen,
+      content: "content",
+      beforeClose: () => deferred.promise,
+    });
+    await flush();
+
+    sheet.close();
+    sheet.destroy();
+    deferred.resolve(true);
+    await flushGuard();
+
+    expect(isOpen.val).toBe(true);
+  });
+});
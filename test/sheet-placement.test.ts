@@ -0,0 +1,189 @@
+import van from "vanjs-core";
+import { afterEach, describe, expect, it } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import type { SheetPlacement } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+type PointerPoint = {
+  pointerId?: number;
+  pointerType?: string;
+  clientX?: number;
+  clientY?: number;
+  timeStamp?: number;
+};
+
+const dispatchPointerEvent = (
+  target: EventTarget,
+  type: string,
+  point: PointerPoint = {},
+) => {
+  const event = new Event(type, {
+    bubbles: true,
+    cancelable: true,
+  }) as PointerEvent;
+  const properties = {
+    pointerId: 1,
+    pointerType: "touch",
+    isPrimary: true,
+    button: 0,
+    clientX: 0,
+    clientY: 0,
+    timeStamp: 0,
+    ...point,
+  };
+  for (const [key, value] of Object.entries(properties)) {
+    Object.defineProperty(event, key, { configurable: true, value });
+  }
+  target.dispatchEvent(event);
+  return event;
+};
+
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+const mountSheet = (
+  isOpen: ReturnType<typeof van.state<boolean>>,
+  placement: SheetPlacement,
+) => {
+  const sheet = createSheet({
+    isOpen,
+    content: "content",
+    placement,
+  });
+  mountedSheets.push(sheet);
+  return sheet;
+};
+
+const dragPanel = (
+  sheet: ReturnType<typeof createSheet>,
+  from: { clientX: number; clientY: number },
+  to: { clientX: number; clientY: number },
+) => {
+  const panel = sheet.element.querySelector<HTMLElement>(".vsheet-panel");
+  dispatchPointerEvent(panel as HTMLElement, "pointerdown", { ...from });
+  dispatchPointerEvent(panel as HTMLElement, "pointermove", { ...to });
+  const transform = panel?.style.transform;
+  dispatchPointerEvent(panel as HTMLElement, "pointerup");
+  return transform;
+};
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  document.body.innerHTML = "";
+});
+
+describe("createSheet placement", () => {
+  it("defaults to bottom placement", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+    });
+    mountedSheets.push(sheet);
+
+    await flush();
+
+    expect(sheet.element.dataset.placement).toBe("bottom");
+  });
+
+  it("rejects unknown placements", () => {
+    expect(() =>
+      createSheet({
+        isOpen: van.state(false),
+        content: "content",
+        placement: "middle" as SheetPlacement,
+      }),
+    ).toThrow(/invalid `placement` "middle"/);
+  });
+
+  it("drags a right drawer closed toward the right edge", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet(isOpen, "right");
+
+    await flush();
+
+    expect(sheet.element.dataset.placement).toBe("right");
+
+    const transform = dragPanel(
+      sheet,
+      { clientX: 100, clientY: 100 },
+      { clientX: 320, clientY: 110 },
+    );
+    await flush();
+
+    expect(transform).toBe("translateX(220px)");
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("ignores drags toward the open edge of a left drawer", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet(isOpen, "left");
+
+    await flush();
+
+    dragPanel(
+      sheet,
+      { clientX: 100, clientY: 100 },
+      { clientX: 320, clientY: 100 },
+    );
+    await flush();
+    expect(isOpen.val).toBe(true);
+
+    const transform = dragPanel(
+      sheet,
+      { clientX: 320, clientY: 100 },
+      { clientX: 100, clientY: 100 },
+    );
+    await flush();
+
+    expect(transform).toBe("translateX(-220px)");
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("leaves vertical gestures in side drawers to content scrolling", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet(isOpen, "right");
+
+    await flush();
+
+    dragPanel(
+      sheet,
+      { clientX: 100, clientY: 100 },
+      { clientX: 110, clientY: 400 },
+    );
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+    expect(sheet.element.dataset.dragging).toBeUndefined();
+  });
+
+  it("drags a top sheet closed upward", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet(isOpen, "top");
+
+    await flush();
+
+    const transform = dragPanel(
+      sheet,
+      { clientX: 0, clientY: 400 },
+      { clientX: 0, clientY: 180 },
+    );
+    await flush();
+
+    expect(transform).toBe("translateY(-220px)");
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("skips mobile bottom-sheet height tracking for side drawers", async () => {
+    const sheet = mountSheet(van.state(true), "right");
+
+    await flush();
+
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "",
+    );
+  });
+});
@@ -0,0 +1,260 @@
+import van from "vanjs-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import type { SheetPointerType } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+type PointerPoint = {
+  pointerId?: number;
+  pointerType?: string;
+  button?: number;
+  isPrimary?: boolean;
+  clientX?: number;
+  clientY?: number;
+  timeStamp?: number;
+};
+
+const dispatchPointerEvent = (
+  target: EventTarget,
+  type: string,
+  point: PointerPoint = {},
+) => {
+  const event = new Event(type, {
+    bubbles: true,
+    cancelable: true,
+  }) as PointerEvent;
+  const properties = {
+    pointerId: 1,
+    pointerType: "touch",
+    isPrimary: true,
+    button: 0,
+    clientX: 0,
+    clientY: 0,
+    timeStamp: 0,
+    ...point,
+  };
+  for (const [key, value] of Object.entries(properties)) {
+    Object.defineProperty(event, key, { configurable: true, value });
+  }
+  target.dispatchEvent(event);
+  return event;
+};
+
+const originalMatchMedia = window.matchMedia;
+const mountedSheets: ReturnType<typeof createSheet>[] = [];
+
+const mountSheet = (
+  isOpen: ReturnType<typeof van.state<boolean>>,
+  dragPointerTypes?: SheetPointerType[],
+) => {
+  const sheet = createSheet({
+    isOpen,
+    content: "content",
+    placement: "right",
+    dragPointerTypes,
+  });
+  mountedSheets.push(sheet);
+  return sheet;
+};
+
+const dragPanel = (
+  sheet: ReturnType<typeof createSheet>,
+  point: PointerPoint,
+  toX: number,
+) => {
+  const panel = sheet.element.querySelector(".vsheet-panel") as HTMLElement;
+  dispatchPointerEvent(panel, "pointerdown", { ...point, clientX: 100 });
+  dispatchPointerEvent(panel, "pointermove", { ...point, clientX: toX });
+  dispatchPointerEvent(panel, "pointerup", { ...point, clientX: toX });
+};
+
+beforeEach(() => {
+  // Desktop viewport: drag no longer depends on the mobile breakpoint.
+  Object.defineProperty(window, "matchMedia", {
+    configurable: true,
+    writable: true,
+    value: (media: string) =>
+      ({
+        matches: false,
+        media,
+        addEventListener: () => {},
+        removeEventListener: () => {},
+      }) as unknown as MediaQueryList,
+  });
+});
+
+afterEach(() => {
+  for (const sheet of mountedSheets.splice(0)) {
+    sheet.destroy();
+  }
+  Object.defineProperty(window, "matchMedia", {
+    configurable: true,
+    writable: true,
+    value: originalMatchMedia,
+  });
+  document.body.innerHTML = "";
+});
+
+describe("createSheet pointer drag", () => {
+  it("drags a desktop drawer closed with the mouse and captures the pointer", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet(isOpen);
+    const setPointerCapture = vi.fn();
+    const hasPointerCapture = vi.fn(() => true);
+    const releasePointerCapture = vi.fn();
+    Object.assign(sheet.element, {
+      setPointerCapture,
+      hasPointerCapture,
+      releasePointerCapture,
+    });
+
+    await flush();
+
+    dragPanel(sheet, { pointerType: "mouse", pointerId: 7 }, 320);
+    await flush();
+
+    expect(setPointerCapture).toHaveBeenCalledWith(7);
+    expect(releasePointerCapture).toHaveBeenCalledWith(7);
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("drags with a pen", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet(isOpen);
+
+    await flush();
+
+    dragPanel(sheet, { pointerType: "pen" }, 320);
+    await flush();
+
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("ignores secondary mouse buttons and non-primary pointers", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet(isOpen);
+
+    await flush();
+
+    dragPanel(sheet, { pointerType: "mouse", button: 2 }, 320);
+    dragPanel(sheet, { pointerType: "touch", isPrimary: false }, 320);
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+  });
+
+  it("restricts dragging to the configured pointer types", async () => {
+    const isOpen = van.state(true);
+    const sheet = mountSheet(isOpen, ["touch"]);
+
+    await flush();
+
+    dragPanel(sheet, { pointerType: "mouse" }, 320);
+    await flush();
+    expect(isOpen.val).toBe(true);
+
+    dragPanel(sheet, { pointerType: "touch" }, 320);
+    await flush();
+    expect(isOpen.val).toBe(false);
+  });
+
+  it("does not start a drag on interactive content", async () => {
+    const isOpen = van.state(true);
+    const action = document.createElement("button");
+    const sheet = createSheet({
+      isOpen,
+      content: action,
+      placement: "right",
+    });
+    mountedSheets.push(sheet);
+
+    await flush();
+
+    dispatchPointerEvent(action, "pointerdown", {
+      pointerType: "mouse",
+      clientX: 100,
+    });
+    dispatchPointerEvent(action, "pointermove", {
+      pointerType: "mouse",
+      clientX: 320,
+    });
+    dispatchPointerEvent(action, "pointerup", {
+      pointerType: "mouse",
+      clientX: 320,
+    });
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+    expect(sheet.element.dataset.dragging).toBeUndefined();
+  });
+
+  it("rejects unknown pointer types", () => {
+    expect(() =>
+      mountSheet(van.state(false), ["stylus" as SheetPointerType]),
+    ).toThrow(/invalid `dragPointerTypes` entry "stylus"/);
+  });
+
+  it("leaves small mouse moves and text selection to the content", async () => {
+    const isOpen = van.state(true);
+    const text = document.createElement("p");
+    text.textContent = "Selectable copy";
+    const sheet = createSheet({ isOpen, content: text });
+    mountedSheets.push(sheet);
+    await flush();
+    const panel = sheet.element.querySelector(".vsheet-panel") as HTMLElement;
+    const mouse = { pointerType: "mouse", pointerId: 3 };
+
+    dispatchPointerEvent(text, "pointerdown", { ...mouse, clientY: 100 });
+    dispatchPointerEvent(text, "pointermove", { ...mouse, clientY: 105 });
+    expect(sheet.element.dataset.dragging).toBeUndefined();
+
+    document.getSelection()?.selectAllChildren(text);
+    dispatchPointerEvent(text, "pointermove", {
+      ...mouse,
+      clientY: 400,
+      timeStamp: 20,
+    });
+    dispatchPointerEvent(text, "pointerup", {
+      ...mouse,
+      clientY: 400,
+      timeStamp: 20,
+    });
+    await flush();
+
+    expect(sheet.element.dataset.dragging).toBeUndefined();
+    expect(panel.style.transform).toBe("");
+    expect(isOpen.val).toBe(true);
+    document.getSelection()?.removeAllRanges();
+  });
+
+  it("settles a cancelled drag back instead of closing", async () => {
+    const isOpen = van.state(true);
+    const sheet = createSheet({ isOpen, content: "content" });
+    mountedSheets.push(sheet);
+    await flush();
+    const panel = sheet.element.querySelector(".vsheet-panel") as HTMLElement;
+
+    // Fast enough to count as a fling if it were released.
+    dispatchPointerEvent(panel, "pointerdown", { clientY: 100 });
+    dispatchPointerEvent(panel, "pointermove", {
+      clientY: 130,
+      timeStamp: 16,
+    });
+    expect(sheet.element.dataset.dragging).toBe("true");
+    dispatchPointerEvent(panel, "pointercancel", {
+      clientY: 130,
+      timeStamp: 16,
+    });
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+    expect(sheet.element.dataset.dragging).toBeUndefined();
+    expect(panel.style.transform).toBe("translateY(0px)");
+    expect(
+      sheet.element.style.getPropertyValue("--vsheet-backdrop-open-opacity"),
+    ).toBe("1");
+  });
+});
@@ -0,0 +1,157 @@
+import van from "vanjs-core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createSheet } from "../src/create-sheet";
+
+type MediaQueryListener = (event: MediaQueryListEvent) => void;
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+const originalMatchMedia = window.matchMedia;
+const originalInnerHeight = Object.getOwnPropertyDescriptor(
+  window,
+  "innerHeight",
+);
+const mediaQueryListeners = new Set<MediaQueryListener>();
+let mobileMatches = true;
+
+const setMobileViewport = (matches: boolean) => {
+  mobileMatches = matches;
+  for (const listener of mediaQueryListeners) {
+    listener({ matches } as MediaQueryListEvent);
+  }
+};
+
+beforeEach(() => {
+  mobileMatches = true;
+  Object.defineProperty(window, "innerHeight", {
+    configurable: true,
+    writable: true,
+    value: 1000,
+  });
+  Object.defineProperty(window, "matchMedia", {
+    configurable: true,
+    writable: true,
+    value: (media: string) =>
+      ({
+        get matches() {
+          return mobileMatches;
+        },
+        media,
+        onchange: null,
+        addEventListener: (_type: string, listener: MediaQueryListener) => {
+          mediaQueryListeners.add(listener);
+        },
+        removeEventListener: (_type: string, listener: MediaQueryListener) => {
+          mediaQueryListeners.delete(listener);
+        },
+        addListener: () => {},
+        removeListener: () => {},
+        dispatchEvent: () => false,
+      }) as unknown as MediaQueryList,
+  });
+});
+
+afterEach(() => {
+  mediaQueryListeners.clear();
+  Object.defineProperty(window, "matchMedia", {
+    configurable: true,
+    writable: true,
+    value: originalMatchMedia,
+  });
+  if (originalInnerHeight) {
+    Object.defineProperty(window, "innerHeight", originalInnerHeight);
+  }
+  document.body.innerHTML = "";
+});
+
+describe("createSheet responsive placement", () => {
+  it("resolves placement and width for the current breakpoint", async () => {
+    mobileMatches = false;
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      placement: { mobile: "bottom", desktop: "right" },
+      width: { desktop: "480px" },
+    });
+
+    await flush();
+
+    expect(sheet.element.dataset.placement).toBe("right");
+    expect(sheet.element.style.getPropertyValue("--vsheet-panel-width")).toBe(
+      "480px",
+    );
+
+    sheet.destroy();
+  });
+
+  it("switches layout live when the viewport crosses the breakpoint", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      placement: { mobile: "bottom", desktop: "center" },
+      width: { desktop: "520px" },
+    });
+
+    await flush();
+
+    expect(sheet.element.dataset.placement).toBe("bottom");
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "950px",
+    );
+    expect(sheet.element.style.getPropertyValue("--vsheet-panel-width")).toBe(
+      "",
+    );
+
+    setMobileViewport(false);
+
+    expect(sheet.element.dataset.placement).toBe("center");
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "",
+    );
+    expect(sheet.element.style.getPropertyValue("--vsheet-panel-width")).toBe(
+      "520px",
+    );
+    expect(sheet.element.dataset.stackTop).toBe("true");
+
+    setMobileViewport(true);
+
+    expect(sheet.element.dataset.placement).toBe("bottom");
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "950px",
+    );
+
+    sheet.destroy();
+  });
+
+  it("falls back to bottom placement for breakpoints missing from the map", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      placement: { desktop: "left" },
+    });
+
+    await flush();
+    expect(sheet.element.dataset.placement).toBe("bottom");
+
+    setMobileViewport(false);
+    expect(sheet.element.dataset.placement).toBe("left");
+
+    sheet.destroy();
+  });
+
+  it("stops listening for breakpoint changes after destroy", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      placement: { mobile: "bottom", desktop: "right" },
+    });
+
+    await flush();
+    expect(mediaQueryListeners.size).toBe(1);
+
+    sheet.destroy();
+    expect(mediaQueryListeners.size).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { SheetInstance } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+// Each call loads a fresh module graph, like a separately bundled copy of
+// the library in another micro-frontend.
+const loadLibraryCopy = async () => {
+  vi.resetModules();
+  const [{ default: van }, { createSheet }, { sheetStack }] = await Promise.all(
+    [
+      import("vanjs-core"),
+      import("../src/create-sheet"),
+      import("../src/sheet-stack"),
+    ],
+  );
+  return { van, createSheet, sheetStack };
+};
+
+type LibraryCopy = Awaited<ReturnType<typeof loadLibraryCopy>>;
+
+let sheets: SheetInstance[] = [];
+
+const openSheetFrom = async ({ van, createSheet }: LibraryCopy) => {
+  const isOpen = van.state(false);
+  const { button, div } = van.tags;
+  const sheet = createSheet({
+    isOpen,
+    title: "Sheet",
+    content: div(button("Action")),
+  });
+  sheets.push(sheet);
+  isOpen.val = true;
+  await flush();
+  return { isOpen, sheet };
+};
+
+afterEach(async () => {
+  for (const sheet of sheets) {
+    sheet.destroy();
+  }
+  sheets = [];
+  await flush();
+  document.body.innerHTML = "";
+  document.body.style.cssText = "";
+  document.documentElement.style.cssText = "";
+});
+
+describe("shared state across library copies", () => {
+  it("loads separate module instances", async () => {
+    const firstCopy = await loadLibraryCopy();
+    const secondCopy = await loadLibraryCopy();
+
+    expect(secondCopy.createSheet).not.toBe(firstCopy.createSheet);
+    expect(
+      Object.getOwnPropertySymbols(globalThis).includes(
+        Symbol.for("van-sheet.shared-state.v1"),
+      ),
+    ).toBe(true);
+  });
+
+  it("layers sheets from both copies in one page-level stack", async () => {
+    const firstCopy = await loadLibraryCopy();
+    const secondCopy = await loadLibraryCopy();
+    const lower = await openSheetFrom(firstCopy);
+    const upper = await openSheetFrom(secondCopy);
+    await flush();
+
+    expect(lower.sheet.element.dataset.stackTop).toBe("false");
+    expect(lower.sheet.element.dataset.stackDepth).toBe("1");
+    expect(upper.sheet.element.dataset.stackTop).toBe("true");
+    expect(upper.sheet.element.dataset.stackSize).toBe("2");
+    expect(firstCopy.sheetStack.getTopSheet()).toBe(upper.sheet);
+    expect(secondCopy.sheetStack.openSheets.val).toEqual([
+      lower.sheet,
+      upper.sheet,
+    ]);
+  });
+
+  it("closes only the top sheet on Escape from outside the sheets", async () => {
+    const firstCopy = await loadLibraryCopy();
+    const secondCopy = await loadLibraryCopy();
+    const lower = await openSheetFrom(firstCopy);
+    const upper = await openSheetFrom(secondCopy);
+    (document.activeElement as HTMLElement | null)?.blur();
+
+    document.dispatchEvent(
+      new KeyboardEvent("keydown", { key: "Escape", bubbles: true }),
+    );
+    await flush();
+
+    expect(upper.isOpen.val).toBe(false);
+    expect(lower.isOpen.val).toBe(true);
+  });
+
+  it("shares the body scroll lock and restores the original styles", async () => {
+    document.body.style.overflow = "auto";
+    const firstCopy = await loadLibraryCopy();
+    const secondCopy = await loadLibraryCopy();
+    const lower = await openSheetFrom(firstCopy);
+    const upper = await openSheetFrom(secondCopy);
+    expect(document.body.style.overflow).toBe("hidden");
+
+    lower.isOpen.val = false;
+    await flush();
+    expect(document.body.style.overflow).toBe("hidden");
+
+    upper.isOpen.val = false;
+    await flush();
+    expect(document.body.style.overflow).toBe("auto");
+    expect(document.body.style.position).toBe("");
+  });
+
+  it("keeps generated element ids unique", async () => {
+    const firstCopy = await loadLibraryCopy();
+    const secondCopy = await loadLibraryCopy();
+    const first = await openSheetFrom(firstCopy);
+    const second = await openSheetFrom(secondCopy);
+
+    const labelledBy = (sheet: SheetInstance) =>
+      sheet.element
+        .querySelector('[role="dialog"]')
+        ?.getAttribute("aria-labelledby");
+    expect(labelledBy(first.sheet)).toBeTruthy();
+    expect(labelledBy(second.sheet)).not.toBe(labelledBy(first.sheet));
+  });
+});
@@ -0,0 +1,234 @@
+import van from "vanjs-core";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import type { SheetReason } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+};
+
+type PointerPoint = {
+  pointerId?: number;
+  pointerType?: string;
+  clientX?: number;
+  clientY?: number;
+  timeStamp?: number;
+};
+
+const dispatchPointerEvent = (
+  target: EventTarget,
+  type: string,
+  point: PointerPoint = {},
+) => {
+  const event = new Event(type, {
+    bubbles: true,
+    cancelable: true,
+  }) as PointerEvent;
+  const properties = {
+    pointerId: 1,
+    pointerType: "touch",
+    isPrimary: true,
+    button: 0,
+    clientX: 0,
+    clientY: 0,
+    timeStamp: 0,
+    ...point,
+  };
+  for (const [key, value] of Object.entries(properties)) {
+    Object.defineProperty(event, key, { configurable: true, value });
+  }
+  target.dispatchEvent(event);
+  return event;
+};
+
+const dragPanel = (sheet: ReturnType<typeof createSheet>, toY: number) => {
+  const panel = sheet.element.querySelector<HTMLElement>(".vsheet-panel");
+  dispatchPointerEvent(panel as HTMLElement, "pointerdown", { clientY: 500 });
+  dispatchPointerEvent(panel as HTMLElement, "pointermove", { clientY: toY });
+  dispatchPointerEvent(panel as HTMLElement, "pointerup");
+};
+
+const originalInnerHeight = Object.getOwnPropertyDescriptor(
+  window,
+  "innerHeight",
+);
+
+beforeEach(() => {
+  Object.defineProperty(window, "innerHeight", {
+    configurable: true,
+    writable: true,
+    value: 1000,
+  });
+});
+
+afterEach(() => {
+  if (originalInnerHeight) {
+    Object.defineProperty(window, "innerHeight", originalInnerHeight);
+  }
+  document.body.innerHTML = "";
+});
+
+describe("createSheet snap points", () => {
+  it("opens at the active snap point height", async () => {
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      snapPoints: [0.25, "600px", 0.95],
+      activeSnapPoint: van.state(1),
+    });
+
+    await flush();
+
+    expect(sheet.element.dataset.snapPoints).toBe("true");
+    expect(sheet.element.dataset.snapPoint).toBe("1");
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "600px",
+    );
+
+    sheet.destroy();
+  });
+
+  it("moves between snap points through snapTo and reports the reason", async () => {
+    const changes: [number, SheetReason][] = [];
+    const sheet = createSheet({
+      isOpen: van.state(true),
+      content: "content",
+      snapPoints: [0.25, 0.5, 0.95],
+      onSnapPointChange: (index, reason) => {
+        changes.push([index, reason]);
+      },
+    });
+
+    await flush();
+    expect(sheet.activeSnapPoint.val).toBe(0);
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "250px",
+    );
+
+    sheet.snapTo(2);
+    await flush();
+
+    expect(sheet.activeSnapPoint.val).toBe(2);
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "950px",
+    );
+    expect(changes).toEqual([[2, "api"]]);
+    expect(() => sheet.snapTo(3)).toThrow(/out of range/);
+
+    sheet.destroy();
+  });
+
+  it("expands to the nearest snap point when dragged upward", async () => {
+    const changes: [number, SheetReason][] = [];
+    const isOpen = van.state(true);
+    const sheet = createSheet({
+      isOpen,
+      content: "content",
+      snapPoints: [0.25, 0.5, 0.95],
+      onSnapPointChange: (index, reason) => {
+        changes.push([index, reason]);
+      },
+    });
+
+    await flush();
+
+    const panel = sheet.element.querySelector<HTMLElement>(".vsheet-panel");
+    dispatchPointerEvent(panel as HTMLElement, "pointerdown", { clientY: 500 });
+    dispatchPointerEvent(panel as HTMLElement, "pointermove", { clientY: 260 });
+
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "490px",
+    );
+    expect(sheet.element.dataset.dragging).toBe("true");
+
+    dispatchPointerEvent(panel as HTMLElement, "pointerup");
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+    expect(sheet.activeSnapPoint.val).toBe(1);
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "500px",
+    );
+    expect(changes).toEqual([[1, "drag"]]);
+
+    sheet.destroy();
+  });
+
+  it("collapses to a lower snap point before dismissing", async () => {
+    const isOpen = van.state(true);
+    const sheet = createSheet({
+      isOpen,
+      content: "content",
+      snapPoints: [0.25, 0.95],
+      activeSnapPoint: van.state(1),
+    });
+
+    await flush();
+
+    dragPanel(sheet, 1000);
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+    expect(sheet.activeSnapPoint.val).toBe(0);
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "250px",
+    );
+
+    dragPanel(sheet, 700);
+    await flush();
+
+    expect(isOpen.val).toBe(false);
+
+    sheet.destroy();
+  });
+
+  it("snaps back instead of dismissing for short drags below the lowest snap point", async () => {
+    const isOpen = van.state(true);
+    const sheet = createSheet({
+      isOpen,
+      content: "content",
+      snapPoints: [0.5],
+    });
+
+    await flush();
+
+    dragPanel(sheet, 560);
+    await flush();
+
+    expect(isOpen.val).toBe(true);
+    expect(sheet.element.style.getPropertyValue("--vsheet-mobile-height")).toBe(
+      "500px",
+    );
+
+    sheet.destroy();
+  });
+
+  it("validates snap point configuration", () => {
+    expect(() =>
+      createSheet({
+        isOpen: van.state(false),
+        content: "content",
+        snapPoints: [],
+      }),
+    ).toThrow(
+      "createSheet: `snapPoints` must include at least one snap point.",
+    );
+
+    expect(() =>
+      createSheet({
+        isOpen: van.state(false),
+        content: "content",
+        snapPoints: [1.5],
+      }),
+    ).toThrow(/invalid snap point 1.5/);
+
+    expect(() =>
+      createSheet({
+        isOpen: van.state(false),
+        content: "content",
+        snapPoints: ["content"],
+        adjustableHeight: true,
+      }),
+    ).toThrow(/cannot be combined with `adjustableHeight`/);
+  });
+});
@@ -0,0 +1,168 @@
+import van from "vanjs-core";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import { createSheetStack, sheetStack } from "../src/sheet-stack";
+import type { SheetInstance, SheetOptions, SheetStack } from "../src/types";
+
+const { button, div } = van.tags;
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+const pressKey = (key: string) => {
+  const event = new KeyboardEvent("keydown", {
+    key,
+    bubbles: true,
+    cancelable: true,
+  });
+  (document.activeElement ?? document.body).dispatchEvent(event);
+  return event;
+};
+
+let sheets: SheetInstance[] = [];
+
+const openSheetIn = async (
+  stackScope: SheetStack | undefined,
+  options: Partial<SheetOptions> = {},
+) => {
+  const isOpen = van.state(false);
+  const sheet = createSheet({
+    isOpen,
+    content: div(button("First"), button("Last")),
+    stackScope,
+    ...options,
+  });
+  sheets.push(sheet);
+  isOpen.val = true;
+  await flush();
+  return { isOpen, sheet };
+};
+
+afterEach(() => {
+  for (const sheet of sheets) {
+    sheet.destroy();
+  }
+  sheets = [];
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("createSheetStack", () => {
+  it("layers scoped sheets independently of page-level sheets", async () => {
+    const widgetStack = createSheetStack();
+    const page = await openSheetIn(undefined);
+    const widgetLower = await openSheetIn(widgetStack);
+    const widgetUpper = await openSheetIn(widgetStack);
+
+    expect(page.sheet.element.dataset.stackTop).toBe("true");
+    expect(page.sheet.element.dataset.stackSize).toBe("1");
+    expect(widgetLower.sheet.element.dataset.stackTop).toBe("false");
+    expect(widgetLower.sheet.element.dataset.stackDepth).toBe("1");
+    expect(widgetUpper.sheet.element.dataset.stackTop).toBe("true");
+    expect(widgetUpper.sheet.element.dataset.stackSize).toBe("2");
+    expect(
+      widgetUpper.sheet.element.style.getPropertyValue("--vsheet-stack-layer"),
+    ).toBe("1");
+  });
+
+  it("keeps open-sheet lists and top-sheet resolution per scope", async () => {
+    const widgetStack = createSheetStack();
+    const page = await openSheetIn(undefined);
+    const widget = await openSheetIn(widgetStack);
+    await flush();
+
+    expect(sheetStack.openSheets.val).toEqual([page.sheet]);
+    expect(sheetStack.getTopSheet()).toBe(page.sheet);
+    expect(widgetStack.openSheets.val).toEqual([widget.sheet]);
+    expect(widgetStack.getTopSheet()).toBe(widget.sheet);
+  });
+
+  it("accepts sheetStack itself as the page-level scope", async () => {
+    const page = await openSheetIn(sheetStack);
+    const implicitPage = await openSheetIn(undefined);
+
+    expect(page.sheet.element.dataset.stackTop).toBe("false");
+    expect(implicitPage.sheet.element.dataset.stackSize).toBe("2");
+  });
+
+  it("closes only the scope's sheets with closeAllSheets", async () => {
+    vi.useFakeTimers();
+    const widgetStack = createSheetStack();
+    const page = await openSheetIn(undefined);
+    const widget = await openSheetIn(widgetStack);
+
+    const closed = widgetStack.closeAllSheets();
+    await vi.runAllTimersAsync();
+    vi.useRealTimers();
+
+    await expect(closed).resolves.toBe(true);
+    expect(widget.isOpen.val).toBe(false);
+    expect(page.isOpen.val).toBe(true);
+  });
+
+  it("routes Escape to the scope whose top sheet holds focus", async () => {
+    const widgetStack = createSheetStack();
+    const page = await openSheetIn(undefined);
+    const widget = await openSheetIn(widgetStack);
+    expect(widget.sheet.element.contains(document.activeElement)).toBe(true);
+
+    pressKey("Escape");
+    await flush();
+    expect(widget.isOpen.val).toBe(false);
+    expect(page.isOpen.val).toBe(true);
+  });
+
+  it("closes every scope's top sheet on Escape from outside the sheets", async () => {
+    const widgetStack = createSheetStack();
+    const page = await openSheetIn(undefined);
+    const widget = await openSheetIn(widgetStack);
+    (document.activeElement as HTMLElement | null)?.blur();
+
+    pressKey("Escape");
+    await flush();
+    expect(widget.isOpen.val).toBe(false);
+    expect(page.isOpen.val).toBe(false);
+  });
+
+  it("leaves Tab cycling to the scope that holds focus", async () => {
+    const widgetStack = createSheetStack();
+    const widget = await openSheetIn(widgetStack);
+    // Created last, so its Tab handler runs after the widget's.
+    await openSheetIn(undefined);
+    const panelButtons = widget.sheet.element.querySelectorAll<HTMLElement>(
+      ".vsheet-panel button",
+    );
+    panelButtons[panelButtons.length - 1].focus();
+
+    expect(pressKey("Tab").defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(panelButtons[0]);
+  });
+
+  it("opts a scope out of body scroll locking", async () => {
+    const widgetStack = createSheetStack({ lockBodyScroll: false });
+    const widget = await openSheetIn(widgetStack);
+    expect(document.body.style.overflow).toBe("");
+
+    const page = await openSheetIn(undefined);
+    expect(document.body.style.overflow).toBe("hidden");
+
+    page.isOpen.val = false;
+    await flush();
+    expect(document.body.style.overflow).toBe("");
+    expect(widget.isOpen.val).toBe(true);
+  });
+
+  it("rejects stack scopes that were not created by createSheetStack", () => {
+    expect(() =>
+      createSheet({
+        isOpen: van.state(false),
+        content: "body",
+        stackScope: { ...sheetStack },
+      }),
+    ).toThrow(
+      "createSheet: `stackScope` must be `sheetStack` or come from `createSheetStack()`.",
+    );
+  });
+});
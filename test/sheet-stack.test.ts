@@ -0,0 +1,171 @@
+import van from "vanjs-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import { sheetStack } from "../src/sheet-stack";
+import type { SheetInstance, SheetOptions } from "../src/types";
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+let sheets: SheetInstance[] = [];
+
+const createStackSheet = (options: Partial<SheetOptions> = {}) => {
+  const isOpen = van.state(false);
+  const sheet = createSheet({ isOpen, content: "body", ...options });
+  sheets.push(sheet);
+  return { isOpen, sheet };
+};
+
+const openStackSheets = async (count: number) => {
+  const stackSheets = [];
+  for (let index = 0; index < count; index += 1) {
+    const stackSheet = createStackSheet();
+    stackSheet.isOpen.val = true;
+    await flush();
+    stackSheets.push(stackSheet);
+  }
+
+  return stackSheets;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(async () => {
+  for (const sheet of sheets) {
+    sheet.destroy();
+  }
+  sheets = [];
+  await flush();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("sheetStack", () => {
+  it("lists open sheets bottom-first and notifies once per batch", async () => {
+    const listener = vi.fn();
+    const unsubscribe = sheetStack.subscribe(listener);
+    const lower = createStackSheet();
+    const upper = createStackSheet();
+
+    lower.isOpen.val = true;
+    upper.isOpen.val = true;
+    await flush();
+
+    expect(sheetStack.openSheets.val).toEqual([lower.sheet, upper.sheet]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenLastCalledWith([lower.sheet, upper.sheet]);
+
+    lower.isOpen.val = false;
+    await flush();
+    expect(sheetStack.openSheets.val).toEqual([upper.sheet]);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    upper.isOpen.val = false;
+    await flush();
+    expect(sheetStack.openSheets.val).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("drives derived state from the reactive list", async () => {
+    const openCount = van.derive(() => sheetStack.openSheets.val.length);
+    await openStackSheets(2);
+    await flush();
+
+    expect(openCount.val).toBe(2);
+  });
+
+  it("resolves the top sheet", async () => {
+    expect(sheetStack.getTopSheet()).toBeNull();
+
+    const [, upper] = await openStackSheets(2);
+
+    expect(sheetStack.getTopSheet()).toBe(upper.sheet);
+  });
+
+  it("closes only the top sheet with the given reason", async () => {
+    const onOpenChange = vi.fn();
+    const lower = createStackSheet({ onOpenChange });
+    lower.isOpen.val = true;
+    await flush();
+    const [upper] = await openStackSheets(1);
+
+    const closed = sheetStack.closeTopSheet("escape");
+    await vi.runAllTimersAsync();
+
+    await expect(closed).resolves.toBe(true);
+    expect(upper.isOpen.val).toBe(false);
+    expect(lower.isOpen.val).toBe(true);
+    expect(onOpenChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("resolves false when there is no sheet to close", async () => {
+    await expect(sheetStack.closeTopSheet()).resolves.toBe(false);
+    await expect(sheetStack.closeAllSheets()).resolves.toBe(true);
+  });
+
+  it("closes every sheet top-down with a stagger", async () => {
+    const [bottom, middle, top] = await openStackSheets(3);
+
+    const closed = sheetStack.closeAllSheets();
+    await flush();
+    expect([bottom, middle, top].map(({ isOpen }) => isOpen.val)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+
+    await vi.advanceTimersByTimeAsync(80);
+    expect(middle.isOpen.val).toBe(false);
+    expect(bottom.isOpen.val).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(80);
+    expect(bottom.isOpen.val).toBe(false);
+
+    await vi.runAllTimersAsync();
+    await expect(closed).resolves.toBe(true);
+    expect(sheetStack.openSheets.val).toEqual([]);
+  });
+
+  it("stops the sweep at a sheet that vetoes closing", async () => {
+    const [bottom] = await openStackSheets(1);
+    const guarded = createStackSheet({ beforeClose: () => false });
+    guarded.isOpen.val = true;
+    await flush();
+    const [top] = await openStackSheets(1);
+
+    const closed = sheetStack.closeAllSheets();
+    await vi.runAllTimersAsync();
+
+    await expect(closed).resolves.toBe(false);
+    expect(top.isOpen.val).toBe(false);
+    expect(guarded.isOpen.val).toBe(true);
+    expect(bottom.isOpen.val).toBe(true);
+  });
+
+  it("waits for a slow async guard before closing the sheets beneath", async () => {
+    const [bottom] = await openStackSheets(1);
+    const top = createStackSheet({
+      beforeClose: () =>
+        new Promise<boolean>((resolve) => {
+          window.setTimeout(() => resolve(false), 200);
+        }),
+    });
+    top.isOpen.val = true;
+    await flush();
+
+    const closed = sheetStack.closeAllSheets();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(bottom.isOpen.val).toBe(true);
+
+    await vi.runAllTimersAsync();
+    await expect(closed).resolves.toBe(false);
+    expect(top.isOpen.val).toBe(true);
+    expect(bottom.isOpen.val).toBe(true);
+  });
+});
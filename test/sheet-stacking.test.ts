@@ -7,26 +7,38 @@ const flush = async () => {
   await Promise.resolve();
 };
 
-type TouchPoint = {
-  identifier: number;
+type PointerPoint = {
+  pointerId?: number;
+  pointerType?: string;
   clientX?: number;
-  clientY: number;
+  clientY?: number;
+  timeStamp?: number;
 };
 
-const dispatchTouchEvent = (
+const dispatchPointerEvent = (
   target: EventTarget,
   type: string,
-  touches: TouchPoint[],
+  point: PointerPoint = {},
 ) => {
   const event = new Event(type, {
     bubbles: true,
     cancelable: true,
-  }) as TouchEvent;
-  Object.defineProperty(event, "touches", {
-    configurable: true,
-    value: touches.map((touch) => ({ clientX: 0, ...touch })),
-  });
+  }) as PointerEvent;
+  const properties = {
+    pointerId: 1,
+    pointerType: "touch",
+    isPrimary: true,
+    button: 0,
+    clientX: 0,
+    clientY: 0,
+    timeStamp: 0,
+    ...point,
+  };
+  for (const [key, value] of Object.entries(properties)) {
+    Object.defineProperty(event, key, { configurable: true, value });
+  }
   target.dispatchEvent(event);
+  return event;
 };
 
 const mountedSheets: ReturnType<typeof createSheet>[] = [];
@@ -218,12 +230,12 @@ describe("createSheet stacked instances", () => {
       thirdSheet.element.querySelector<HTMLElement>(".vsheet-panel");
     expect(topPanel).not.toBeNull();
 
-    dispatchTouchEvent(topPanel as HTMLElement, "touchstart", [
-      { identifier: 1, clientY: 120 },
-    ]);
-    dispatchTouchEvent(topPanel as HTMLElement, "touchmove", [
-      { identifier: 1, clientY: 180 },
-    ]);
+    dispatchPointerEvent(topPanel as HTMLElement, "pointerdown", {
+      clientY: 120,
+    });
+    dispatchPointerEvent(topPanel as HTMLElement, "pointermove", {
+      clientY: 180,
+    });
 
     const secondDragged = Number.parseFloat(
       secondSheet.element.style.getPropertyValue("--vsheet-stack-offset-y"),
@@ -236,7 +248,7 @@ describe("createSheet stacked instances", () => {
     expect(secondSheet.element.dataset.stackDragging).toBe("true");
     expect(firstSheet.element.dataset.stackDragging).toBe("true");
 
-    dispatchTouchEvent(topPanel as HTMLElement, "touchend", []);
+    dispatchPointerEvent(topPanel as HTMLElement, "pointerup");
     await flush();
 
     expect(
@@ -276,13 +288,13 @@ describe("createSheet stacked instances", () => {
       toJSON: () => ({}),
     } as DOMRect);
 
-    dispatchTouchEvent(topPanel as HTMLElement, "touchstart", [
-      { identifier: 1, clientY: 100 },
-    ]);
+    dispatchPointerEvent(topPanel as HTMLElement, "pointerdown", {
+      clientY: 100,
+    });
     // Matches close threshold distance, but still only 25% of panel height.
-    dispatchTouchEvent(topPanel as HTMLElement, "touchmove", [
-      { identifier: 1, clientY: 250 },
-    ]);
+    dispatchPointerEvent(topPanel as HTMLElement, "pointermove", {
+      clientY: 250,
+    });
 
     const secondAtThresholdDistance = Number.parseFloat(
       secondSheet.element.style.getPropertyValue("--vsheet-stack-offset-y"),
@@ -290,16 +302,16 @@ describe("createSheet stacked instances", () => {
     expect(secondAtThresholdDistance).toBeLessThan(-8);
 
     // Drag to full panel height; now background sheet can align with active slot.
-    dispatchTouchEvent(topPanel as HTMLElement, "touchmove", [
-      { identifier: 1, clientY: 700 },
-    ]);
+    dispatchPointerEvent(topPanel as HTMLElement, "pointermove", {
+      clientY: 700,
+    });
 
     const secondAtFullDistance = Number.parseFloat(
       secondSheet.element.style.getPropertyValue("--vsheet-stack-offset-y"),
     );
     expect(secondAtFullDistance).toBeCloseTo(0, 3);
 
-    dispatchTouchEvent(topPanel as HTMLElement, "touchend", []);
+    dispatchPointerEvent(topPanel as HTMLElement, "pointerup");
     await flush();
   });
 
@@ -0,0 +1,246 @@
+import van from "vanjs-core";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSheet } from "../src/create-sheet";
+import { getSheetById } from "../src/internal/registry";
+import type { SheetInstance, SheetOptions } from "../src/types";
+import { syncSheetsWithUrl } from "../src/url-sync";
+
+const flush = async () => {
+  await Promise.resolve();
+  await Promise.resolve();
+  await Promise.resolve();
+};
+
+const waitForWindowEvent = async (type: string) => {
+  await new Promise<void>((resolve) => {
+    window.addEventListener(type, () => resolve(), { once: true });
+  });
+  await flush();
+};
+
+const currentUrl = () =>
+  `${window.location.pathname}${window.location.search}${window.location.hash}`;
+
+let sheets: SheetInstance[] = [];
+let stopUrlSync: (() => void) | null = null;
+
+const createIdSheet = (id: string, options: Partial<SheetOptions> = {}) => {
+  const isOpen = van.state(false);
+  const sheet = createSheet({ id, isOpen, content: id, ...options });
+  sheets.push(sheet);
+  return { isOpen, sheet };
+};
+
+beforeEach(() => {
+  window.history.replaceState(null, "", "/");
+});
+
+afterEach(() => {
+  stopUrlSync?.();
+  stopUrlSync = null;
+  for (const sheet of sheets) {
+    sheet.destroy();
+  }
+  sheets = [];
+  vi.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+describe("sheet registry", () => {
+  it("looks sheets up by id until they are destroyed", () => {
+    const { sheet } = createIdSheet("filters");
+
+    expect(getSheetById("filters")).toBe(sheet);
+
+    sheet.destroy();
+    expect(getSheetById("filters")).toBeUndefined();
+  });
+
+  it("rejects duplicate and empty ids", () => {
+    createIdSheet("filters");
+
+    expect(() => createIdSheet("filters")).toThrow(
+      'createSheet: a sheet with id "filters" already exists.',
+    );
+    expect(() => createIdSheet(" ")).toThrow(
+      "createSheet: `id` must be a non-empty string.",
+    );
+    expect(document.querySelectorAll(".vsheet-root")).toHaveLength(1);
+  });
+});
+
+describe("syncSheetsWithUrl", () => {
+  it("opens the sheet listed in the query on start", async () => {
+    window.history.replaceState(null, "", "/?sheet=filters");
+    const filters = createIdSheet("filters");
+    const details = createIdSheet("details");
+
+    stopUrlSync = syncSheetsWithUrl();
+    await flush();
+
+    expect(filters.isOpen.val).toBe(true);
+    expect(details.isOpen.val).toBe(false);
+    expect(currentUrl()).toBe("/?sheet=filters");
+  });
+
+  it("replaces the query as sheets open and close, keeping other params", async () => {
+    window.history.replaceState(null, "", "/?page=2");
+    const replaceState = vi.spyOn(window.history, "replaceState");
+    const pushState = vi.spyOn(window.history, "pushState");
+    const { isOpen, sheet } = createIdSheet("filters");
+    stopUrlSync = syncSheetsWithUrl();
+
+    isOpen.val = true;
+    await flush();
+    expect(currentUrl()).toBe("/?page=2&sheet=filters");
+
+    sheet.element.querySelector<HTMLButtonElement>(".vsheet-backdrop")?.click();
+    await flush();
+    expect(currentUrl()).toBe("/?page=2");
+    expect(replaceState).toHaveBeenCalledTimes(2);
+    expect(pushState).not.toHaveBeenCalled();
+  });
+
+  it("lists stacked sheets in open order and closes the top one on Back", async () => {
+    const lower = createIdSheet("filters");
+    const onOpenChange = vi.fn();
+    const upper = createIdSheet("details", { onOpenChange });
+    stopUrlSync = syncSheetsWithUrl({ history: "push", param: "s" });
+
+    lower.isOpen.val = true;
+    await flush();
+    upper.isOpen.val = true;
+    await flush();
+    expect(currentUrl()).toBe("/?s=filters&s=details");
+
+    window.history.back();
+    await waitForWindowEvent("popstate");
+
+    expect(upper.isOpen.val).toBe(false);
+    expect(lower.isOpen.val).toBe(true);
+    expect(onOpenChange).toHaveBeenLastCalledWith(false, "history");
+    expect(currentUrl()).toBe("/?s=filters");
+  });
+
+  it("reopens sheets when navigating forward to their entry", async () => {
+    const { isOpen } = createIdSheet("filters");
+    stopUrlSync = syncSheetsWithUrl({ history: "push" });
+
+    isOpen.val = true;
+    await flush();
+    window.history.back();
+    await waitForWindowEvent("popstate");
+    expect(isOpen.val).toBe(false);
+
+    window.history.forward();
+    await waitForWindowEvent("popstate");
+    expect(isOpen.val).toBe(true);
+  });
+
+  it("syncs encoded ids through the hash in hash mode", async () => {
+    const { isOpen, sheet } = createIdSheet("order details");
+    stopUrlSync = syncSheetsWithUrl({ mode: "hash" });
+
+    // jsdom's `location.hash` setter ignores URLs set through the History API.
+    window.history.pushState(null, "", "#order%20details");
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+    await flush();
+    expect(isOpen.val).toBe(true);
+
+    void sheet.close();
+    await flush();
+    expect(currentUrl()).toBe("/");
+  });
+
+  it("drops malformed hash ids instead of throwing", async () => {
+    const details = createIdSheet("details");
+    const filters = createIdSheet("filters");
+    window.history.replaceState(null, "", "/#details%E0%A4%A,filters");
+
+    stopUrlSync = syncSheetsWithUrl({ mode: "hash" });
+    await flush();
+    expect(filters.isOpen.val).toBe(true);
+    expect(details.isOpen.val).toBe(false);
+
+    const errors: unknown[] = [];
+    const recordError = (event: ErrorEvent) => errors.push(event.error);
+    window.addEventListener("error", recordError);
+    window.history.pushState(null, "", "#%E0%A4%A");
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+    window.removeEventListener("error", recordError);
+    await flush();
+
+    expect(errors).toEqual([]);
+    expect(filters.isOpen.val).toBe(false);
+  });
+
+  it("opens sheets registered after start and keeps their id until then", async () => {
+    window.history.replaceState(null, "", "/?sheet=details");
+    const filters = createIdSheet("filters");
+    stopUrlSync = syncSheetsWithUrl();
+
+    filters.isOpen.val = true;
+    await flush();
+    expect(currentUrl()).toBe("/?sheet=filters&sheet=details");
+
+    const details = createIdSheet("details");
+    await flush();
+    expect(details.isOpen.val).toBe(true);
+    expect(currentUrl()).toBe("/?sheet=filters&sheet=details");
+  });
+
+  it("removes the id of an open sheet that is destroyed", async () => {
+    const { isOpen, sheet } = createIdSheet("filters");
+    stopUrlSync = syncSheetsWithUrl();
+    isOpen.val = true;
+    await flush();
+
+    sheet.destroy();
+    await flush();
+
+    expect(currentUrl()).toBe("/");
+  });
+
+  it("writes sheets that were already open at start", async () => {
+    createIdSheet("filters", { isOpen: van.state(true) });
+
+    stopUrlSync = syncSheetsWithUrl();
+    await flush();
+
+    expect(currentUrl()).toBe("/?sheet=filters");
+  });
+
+  it("stops reacting once the returned cleanup runs", async () => {
+    const { isOpen } = createIdSheet("filters");
+    syncSheetsWithUrl()();
+
+    isOpen.val = true;
+    await flush();
+
+    expect(currentUrl()).toBe("/");
+  });
+
+  it("ignores a stale stop function from an earlier sync", async () => {
+    const { isOpen } = createIdSheet("filters");
+    const stopFirstSync = syncSheetsWithUrl();
+    stopFirstSync();
+    stopUrlSync = syncSheetsWithUrl();
+
+    stopFirstSync();
+
+    expect(() => syncSheetsWithUrl()).toThrow(
+      "syncSheetsWithUrl: URL sync is already active.",
+    );
+    isOpen.val = true;
+    await flush();
+    expect(currentUrl()).toBe("/?sheet=filters");
+  });
+
+  it("allows only one active sync", () => {
+    stopUrlSync = syncSheetsWithUrl();
+
+    expect(() => syncSheetsWithUrl()).toThrow(
+      "syncSheetsWithUrl: URL sync is already active.",
+    );
+  });
+});